@@ -0,0 +1,88 @@
+import type { RateLimitConfig } from './rate-limiter';
+
+/**
+ * Shopify APIs with limits of their own. Each profile keeps its buckets in a separate key namespace.
+ */
+export type ApiProfileName = 'admin-graphql' | 'admin-rest' | 'storefront';
+
+/**
+ * Shopify plan tiers with different API limits.
+ */
+export type ShopifyPlan = 'standard' | 'advanced' | 'plus' | 'enterprise';
+
+/**
+ * Limits of a Shopify API.
+ */
+export interface ApiProfile {
+  name: ApiProfileName;
+  /** Namespace of the profile's Redis keys, e.g. `shopify:{<shop>}:rest:tokens`; none for the GraphQL Admin API. */
+  namespace?: string;
+  /** What a check's cost counts: query cost points, or requests with a cost of 1 each. */
+  unit: 'points' | 'requests';
+  /** Configuration used for a shop on each plan, unless a config is passed or shared. */
+  plans: Record<ShopifyPlan, RateLimitConfig>;
+}
+
+const PLANS: ShopifyPlan[] = ['standard', 'advanced', 'plus', 'enterprise'];
+
+/**
+ * Shopify's published limits per API and plan. The Storefront API has no published request limit,
+ * so its profile holds every shop to a steady request rate; pass or share a config to change it.
+ */
+export const API_PROFILES: Record<ApiProfileName, ApiProfile> = {
+  'admin-graphql': {
+    name: 'admin-graphql',
+    unit: 'points',
+    plans: {
+      standard: { bucketCapacity: 2000, tokensPerSecond: 100 },
+      advanced: { bucketCapacity: 4000, tokensPerSecond: 200 },
+      plus: { bucketCapacity: 20000, tokensPerSecond: 1000 },
+      enterprise: { bucketCapacity: 40000, tokensPerSecond: 2000 },
+    },
+  },
+  // A leaky bucket of requests; margins sized for query costs would not leave a single request
+  'admin-rest': {
+    name: 'admin-rest',
+    namespace: 'rest',
+    unit: 'requests',
+    plans: {
+      standard: { bucketCapacity: 40, tokensPerSecond: 2, algorithm: 'token-bucket' },
+      advanced: { bucketCapacity: 80, tokensPerSecond: 4, algorithm: 'token-bucket' },
+      plus: { bucketCapacity: 400, tokensPerSecond: 20, algorithm: 'token-bucket' },
+      enterprise: { bucketCapacity: 800, tokensPerSecond: 40, algorithm: 'token-bucket' },
+    },
+  },
+  storefront: {
+    name: 'storefront',
+    namespace: 'storefront',
+    unit: 'requests',
+    plans: {
+      standard: { bucketCapacity: 200, tokensPerSecond: 50, algorithm: 'token-bucket' },
+      advanced: { bucketCapacity: 200, tokensPerSecond: 50, algorithm: 'token-bucket' },
+      plus: { bucketCapacity: 200, tokensPerSecond: 50, algorithm: 'token-bucket' },
+      enterprise: { bucketCapacity: 200, tokensPerSecond: 50, algorithm: 'token-bucket' },
+    },
+  },
+};
+
+/**
+ * Looks up an API profile by name.
+ *
+ * @param name - The profile name.
+ */
+export function getApiProfile(name: ApiProfileName): ApiProfile {
+  if (!Object.prototype.hasOwnProperty.call(API_PROFILES, name)) throw new Error('Invalid API profile');
+  return API_PROFILES[name];
+}
+
+/**
+ * The default configuration of an API for a plan, e.g. to share for a shop after it upgraded.
+ *
+ * @param name - The profile name.
+ * @param plan - The shop's plan (default: 'standard').
+ * @returns A copy of the profile's configuration for the plan.
+ */
+export function apiProfileConfig(name: ApiProfileName, plan: ShopifyPlan = 'standard'): RateLimitConfig {
+  if (!PLANS.includes(plan)) throw new Error('Invalid plan');
+  return { ...getApiProfile(name).plans[plan] };
+}
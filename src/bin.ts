@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+import { runCli } from './cli';
+
+const controller = new AbortController();
+process.once('SIGINT', () => controller.abort());
+
+runCli(process.argv.slice(2), { stdout: process.stdout, stderr: process.stderr, signal: controller.signal }).then(
+  code => {
+    process.exitCode = code;
+  }
+);
@@ -0,0 +1,343 @@
+import { Cluster, Redis } from 'ioredis';
+import type { ClientContext, Result } from 'ioredis';
+import { BulkOperationTimeoutError } from './errors';
+import { nowLua } from './redis-lua';
+import { RedisWakeups } from './redis-wakeups';
+import type { Clock } from './store';
+
+declare module 'ioredis' {
+  interface RedisCommander<Context extends ClientContext = { type: 'default' }> {
+    /**
+     * Takes a shop's bulk operation slot if it is free.
+     *
+     * @param slotKey - Hash holding the fencing token, operation ID and lease expiry of the current holder.
+     * @param fenceKey - Counter the fencing tokens are drawn from.
+     * @param leaseTimeoutMs - How long the slot is held without renewal.
+     * @param nowMs - Current time in epoch milliseconds from an injected clock, or an empty string for Redis time.
+     * @returns `[1, fencingToken]` if taken, `[0, msUntilExpiry]` if held by someone else.
+     */
+    shopifybulkacquire(
+      slotKey: string,
+      fenceKey: string,
+      leaseTimeoutMs: number,
+      nowMs: number | string
+    ): Result<[number, number], Context>;
+
+    /**
+     * Extends the lease on a slot, if the fencing token still holds it.
+     *
+     * @returns 1 if renewed, 0 if the slot is no longer held with the token.
+     */
+    shopifybulkrenew(
+      slotKey: string,
+      fencingToken: number,
+      leaseTimeoutMs: number,
+      nowMs: number | string
+    ): Result<number, Context>;
+
+    /**
+     * Frees a slot, if the fencing token still holds it, and wakes callers waiting for it.
+     *
+     * @returns 1 if released, 0 if the slot is no longer held with the token.
+     */
+    shopifybulkrelease(
+      slotKey: string,
+      fencingToken: number,
+      releasedChannel: string,
+      nowMs: number | string
+    ): Result<number, Context>;
+
+    /**
+     * Records the bulk operation started in a slot, if the fencing token still holds it.
+     *
+     * @returns 1 if recorded, 0 if the slot is no longer held with the token.
+     */
+    shopifybulksetoperation(
+      slotKey: string,
+      fencingToken: number,
+      operationId: string,
+      nowMs: number | string
+    ): Result<number, Context>;
+
+    /**
+     * Reads the current holder of a slot.
+     *
+     * @returns `[fencingToken, operationId, msUntilExpiry]`, with an empty operation ID if none was
+     *          recorded, or an empty array if the slot is free.
+     */
+    shopifybulkcurrent(slotKey: string, nowMs: number | string): Result<[] | [number, string, number], Context>;
+  }
+}
+
+/**
+ * Kinds of bulk operation Shopify runs one at a time per shop.
+ */
+export type BulkOperationType = 'query' | 'mutation';
+
+/**
+ * A held bulk operation slot.
+ */
+export interface BulkOperationLease {
+  shop: string;
+  type: BulkOperationType;
+  /** Increases with every acquisition of the slot; stale holders can be told apart by a lower token. */
+  fencingToken: number;
+  leaseTimeoutMs: number;
+}
+
+/**
+ * The current holder of a bulk operation slot.
+ */
+export interface BulkOperationSlot {
+  fencingToken: number;
+  /** The ID of the bulk operation started by the holder, once recorded. */
+  operationId?: string;
+  /** Time left on the lease, in milliseconds. */
+  expiresInMs: number;
+}
+
+/**
+ * Options for constructing a BulkOperationCoordinator.
+ */
+export interface BulkOperationCoordinatorOptions {
+  /** How long a slot is held without renewal, in milliseconds (default: 60000). */
+  leaseTimeoutMs?: number;
+  /**
+   * Clock the scripts use instead of Redis server time to expire leases. The slot keys themselves
+   * still expire on Redis time.
+   */
+  clock?: Clock;
+}
+
+/**
+ * Options controlling how `waitForSlot` waits.
+ */
+export interface WaitForSlotOptions {
+  /** Aborts waiting; the signal's reason is thrown. */
+  signal?: AbortSignal;
+  /** Overall time budget, in milliseconds. */
+  timeoutMs?: number;
+}
+
+const BULK_OPERATION_TYPES: BulkOperationType[] = ['query', 'mutation'];
+
+// A release published before the waiter subscribed is picked up by the next poll at the latest
+const SLOT_POLL_INTERVAL_MS = 1000;
+
+// Checks that ARGV[1] is the fencing token of an unexpired lease; the key alone may outlive the
+// lease when timed by an injected clock
+const HELD_LUA = `local held = redis.call('hmget', KEYS[1], 'fencingToken', 'expiresAt')
+if tonumber(held[1]) ~= tonumber(ARGV[1]) or (tonumber(held[2]) or 0) <= now then return 0 end`;
+
+/**
+ * Coordinates Shopify bulk operations across processes. Shopify runs one bulk query and one bulk
+ * mutation at a time per shop, so each is guarded by a distributed lock with fencing tokens and
+ * lease renewal, kept in the limiter's Redis key namespace.
+ */
+export class BulkOperationCoordinator {
+  private readonly redis: Redis | Cluster;
+  private readonly leaseTimeoutMs: number;
+  private readonly clock?: Clock;
+  private readonly wakeups: RedisWakeups;
+
+  /**
+   * @param redis - A Redis or Redis Cluster client, e.g. the one used by the limiter.
+   * @param options - Coordinator options.
+   */
+  constructor(redis: Redis | Cluster, options: BulkOperationCoordinatorOptions = {}) {
+    this.redis = redis;
+    this.leaseTimeoutMs = options.leaseTimeoutMs ?? 60000;
+    if (!(this.leaseTimeoutMs > 0)) throw new Error('Invalid lease timeout');
+    this.clock = options.clock;
+    this.wakeups = new RedisWakeups(redis);
+
+    this.redis.defineCommand('shopifybulkacquire', {
+      numberOfKeys: 2,
+      lua: `
+${nowLua('ARGV[2]')}
+local expiresAt = tonumber(redis.call('hget', KEYS[1], 'expiresAt'))
+if expiresAt and expiresAt > now then
+  return {0, expiresAt - now}
+end
+local fencingToken = redis.call('incr', KEYS[2])
+redis.call('del', KEYS[1])
+redis.call('hset', KEYS[1], 'fencingToken', fencingToken, 'expiresAt', now + tonumber(ARGV[1]))
+redis.call('pexpire', KEYS[1], ARGV[1])
+return {1, fencingToken}`,
+    });
+    this.redis.defineCommand('shopifybulkrenew', {
+      numberOfKeys: 1,
+      lua: `
+${nowLua('ARGV[3]')}
+${HELD_LUA}
+redis.call('hset', KEYS[1], 'expiresAt', now + tonumber(ARGV[2]))
+redis.call('pexpire', KEYS[1], ARGV[2])
+return 1`,
+    });
+    this.redis.defineCommand('shopifybulkrelease', {
+      numberOfKeys: 1,
+      lua: `
+${nowLua('ARGV[3]')}
+${HELD_LUA}
+redis.call('del', KEYS[1])
+redis.call('publish', ARGV[2], 'released')
+return 1`,
+    });
+    this.redis.defineCommand('shopifybulksetoperation', {
+      numberOfKeys: 1,
+      lua: `
+${nowLua('ARGV[3]')}
+${HELD_LUA}
+redis.call('hset', KEYS[1], 'operationId', ARGV[2])
+return 1`,
+    });
+    this.redis.defineCommand('shopifybulkcurrent', {
+      numberOfKeys: 1,
+      lua: `
+${nowLua('ARGV[1]')}
+local held = redis.call('hmget', KEYS[1], 'fencingToken', 'operationId', 'expiresAt')
+local expiresAt = tonumber(held[3])
+if not expiresAt or expiresAt <= now then return {} end
+return {tonumber(held[1]), held[2] or '', expiresAt - now}`,
+    });
+  }
+
+  /**
+   * Takes the shop's slot for a bulk operation type if no other process holds it.
+   *
+   * @param shop - The shop identifier.
+   * @param type - The bulk operation type.
+   * @returns The lease, to renew while the operation runs and release once it finished,
+   *          or null if the slot is held.
+   */
+  async acquire(shop: string, type: BulkOperationType): Promise<BulkOperationLease | null> {
+    const keys = bulkOperationKeys(shop, type);
+    const [acquired, fencingToken] = await this.redis.shopifybulkacquire(
+      keys.slot,
+      keys.fence,
+      this.leaseTimeoutMs,
+      this.nowArg()
+    );
+
+    return acquired === 1 ? { shop, type, fencingToken, leaseTimeoutMs: this.leaseTimeoutMs } : null;
+  }
+
+  /**
+   * Extends a lease by its timeout, counted from now.
+   *
+   * @param lease - The lease returned by `acquire`.
+   * @returns False if the lease expired and the slot may have been taken by another process.
+   */
+  async renew(lease: BulkOperationLease): Promise<boolean> {
+    const { slot } = bulkOperationKeys(lease.shop, lease.type);
+    return (await this.redis.shopifybulkrenew(slot, lease.fencingToken, lease.leaseTimeoutMs, this.nowArg())) === 1;
+  }
+
+  /**
+   * Frees the slot once the bulk operation finished, waking processes waiting for it.
+   * Releasing twice or after the lease expired leaves the slot alone.
+   *
+   * @param lease - The lease returned by `acquire`.
+   * @returns False if the slot was no longer held with the lease.
+   */
+  async release(lease: BulkOperationLease): Promise<boolean> {
+    const { slot } = bulkOperationKeys(lease.shop, lease.type);
+    const channel = bulkOperationChannel(lease.shop, lease.type);
+    return (await this.redis.shopifybulkrelease(slot, lease.fencingToken, channel, this.nowArg())) === 1;
+  }
+
+  /**
+   * Records the ID of the bulk operation started under a lease, e.g. the `bulkOperation.id`
+   * returned by `bulkOperationRunQuery`.
+   *
+   * @param lease - The lease returned by `acquire`.
+   * @param operationId - The bulk operation ID.
+   * @returns False if the slot was no longer held with the lease.
+   */
+  async setOperationId(lease: BulkOperationLease, operationId: string): Promise<boolean> {
+    const { slot } = bulkOperationKeys(lease.shop, lease.type);
+    return (await this.redis.shopifybulksetoperation(slot, lease.fencingToken, operationId, this.nowArg())) === 1;
+  }
+
+  /**
+   * Reads the current holder of the shop's slot for a bulk operation type.
+   *
+   * @param shop - The shop identifier.
+   * @param type - The bulk operation type.
+   * @returns The holder's fencing token, operation ID and remaining lease, or null if the slot is free.
+   */
+  async getCurrentOperation(shop: string, type: BulkOperationType): Promise<BulkOperationSlot | null> {
+    const { slot } = bulkOperationKeys(shop, type);
+    const held = await this.redis.shopifybulkcurrent(slot, this.nowArg());
+    if (held.length === 0) return null;
+
+    const [fencingToken, operationId, expiresInMs] = held;
+    const current: BulkOperationSlot = { fencingToken, expiresInMs };
+    if (operationId) current.operationId = operationId;
+    return current;
+  }
+
+  /**
+   * Resolves once the shop's slot for a bulk operation type is free: right away if it is, otherwise
+   * when the holder releases it or its lease expires. Another process may take the slot first, so
+   * follow up with `acquire` and wait again if it returns null.
+   *
+   * @param shop - The shop identifier.
+   * @param type - The bulk operation type.
+   * @param options - Abort signal and deadline.
+   * @throws BulkOperationTimeoutError when the slot is still held at the deadline.
+   */
+  async waitForSlot(shop: string, type: BulkOperationType, options: WaitForSlotOptions = {}): Promise<void> {
+    const { signal, timeoutMs } = options;
+    const clock = this.clock ?? Date.now;
+    const deadline = timeoutMs !== undefined ? clock() + timeoutMs : Infinity;
+
+    for (;;) {
+      signal?.throwIfAborted();
+      const current = await this.getCurrentOperation(shop, type);
+      if (!current) return;
+
+      const remainingMs = deadline - clock();
+      if (remainingMs <= 0) throw new BulkOperationTimeoutError(shop, type);
+      const waitMs = Math.min(SLOT_POLL_INTERVAL_MS, remainingMs, current.expiresInMs);
+      await this.wakeups.wait(bulkOperationChannel(shop, type), waitMs, signal);
+    }
+  }
+
+  private nowArg(): number | string {
+    return this.clock ? this.clock() : '';
+  }
+
+  /**
+   * Disconnects the subscriber connection opened by `waitForSlot`.
+   * The Redis client passed to the coordinator is left open.
+   */
+  async close(): Promise<void> {
+    await this.wakeups.close();
+  }
+}
+
+/**
+ * Redis keys of a shop's bulk operation slot, hash-tagged with the shop like `shopKeys`.
+ *
+ * @param shop - The shop identifier.
+ * @param type - The bulk operation type.
+ */
+export function bulkOperationKeys(shop: string, type: BulkOperationType) {
+  if (!BULK_OPERATION_TYPES.includes(type)) throw new Error('Invalid bulk operation type');
+  const prefix = `shopify:{${shop}}:bulk:${type}`;
+  return {
+    slot: prefix,
+    fence: `${prefix}:fence`,
+  };
+}
+
+/**
+ * Pub/sub channel notified when a shop's bulk operation slot is released.
+ *
+ * @param shop - The shop identifier.
+ * @param type - The bulk operation type.
+ */
+export function bulkOperationChannel(shop: string, type: BulkOperationType): string {
+  return `shopify:{${shop}}:bulk:${type}:released`;
+}
@@ -0,0 +1,384 @@
+import { parseArgs } from 'node:util';
+import { Redis, RedisOptions } from 'ioredis';
+import { API_PROFILES, ApiProfile, ApiProfileName, ShopifyPlan } from './api-profiles';
+import { RateLimitAlgorithm, RateLimitConfig, RateLimitInspection, ShopifyRateLimiter } from './rate-limiter';
+import { RedisStore, shopKeys } from './redis-store';
+import { sleep } from './sleep';
+
+/**
+ * Where the CLI writes, and how a running `watch` is stopped.
+ */
+export interface CliIO {
+  stdout: { write(text: string): unknown; isTTY?: boolean };
+  stderr: { write(text: string): unknown };
+  /** Ends `watch`, e.g. on SIGINT. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Thrown for command lines that cannot be run; the usage is printed along with the message.
+ */
+class UsageError extends Error {}
+
+type CliValues = ReturnType<typeof parseCommandLine>['values'];
+
+const USAGE = `Usage: graphql-rate-limiter <command> [options]
+
+Commands:
+  inspect <shop>   Show tokens, concurrency, the synced Shopify state and key TTLs
+  reset <shop>     Delete the shop's rate limit state, keeping its shared config
+  release <shop>   Drop every concurrency lease of the shop, e.g. ones leaked by crashed workers
+  watch <shop>     Show the shop's capacity, refreshed until interrupted
+  top              List the shops with the most throttled checks over --window
+
+Redis connection:
+  --url <url>          Redis URL (default: $REDIS_URL)
+  --host <host>        Redis host (default: localhost)
+  --port <port>        Redis port (default: 6379)
+  --db <db>            Database index (default: 0)
+  --username <name>    ACL username
+  --password <secret>  Password
+  --tls                Connect over TLS
+
+Options:
+  --capacity <points>  Bucket capacity; with --rate, used instead of the shared config
+  --rate <points/s>    Restore rate; with --capacity, used instead of the shared config
+  --algorithm <name>   Limiting algorithm the shop is checked with (default: adaptive)
+  --profile <name>     API whose buckets to use: admin-graphql, admin-rest or storefront (default: admin-graphql)
+  --plan <plan>        Plan whose limits --profile applies to shops without a shared config (default: standard)
+  --interval <ms>      Refresh interval of watch (default: 1000)
+  --count <n>          Refreshes before watch exits (default: until interrupted)
+  --limit <n>          Shops listed by top (default: 10)
+  --window <ms>        Recent period whose throttled checks top counts (default: 300000)
+  --json               Print JSON instead of text
+  --help               Show this help
+`;
+
+/**
+ * Runs the operator CLI, which inspects and repairs shops' rate limit state in Redis using the
+ * same key layout as `ShopifyRateLimiter`.
+ *
+ * @param argv - The arguments after the executable, e.g. `process.argv.slice(2)`.
+ * @param io - Output streams and the signal that ends `watch`.
+ * @returns The exit code: 0 on success, 1 when a command failed and 2 for an invalid command line.
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = { stdout: process.stdout, stderr: process.stderr }
+): Promise<number> {
+  let values: CliValues;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseCommandLine(argv));
+  } catch (error) {
+    io.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (values.help) {
+    io.stdout.write(USAGE);
+    return 0;
+  }
+
+  let redis: Redis | undefined;
+  try {
+    const [command, shop, ...rest] = positionals;
+    if (!command) throw new UsageError('Missing command');
+    if (rest.length > 0 || (command === 'top' ? shop !== undefined : !shop)) {
+      throw new UsageError(`Invalid arguments for ${command}`);
+    }
+    const config = flagConfig(values);
+    const profile = profileFlag(values);
+
+    redis = connect(values);
+    const store = new RedisStore(redis, { namespace: profile.namespace });
+    // Shops without a config only fall back to the profile's limits when a profile was asked for
+    const limiter = new ShopifyRateLimiter(store, {
+      profile: values.profile !== undefined ? profile.name : undefined,
+      plan: values.plan as ShopifyPlan | undefined,
+    });
+
+    switch (command) {
+      case 'inspect':
+        await inspect(io, redis, limiter, shop, config, profile, values.json);
+        break;
+      case 'reset':
+        await limiter.cleanupShop(shop);
+        io.stdout.write(values.json ? `${JSON.stringify({ shop, reset: true })}\n` : `Reset ${shop}\n`);
+        break;
+      case 'release': {
+        const released = await store.releaseAllLeases(shop);
+        io.stdout.write(
+          values.json ? `${JSON.stringify({ shop, released })}\n` : `Released ${released} leases of ${shop}\n`
+        );
+        break;
+      }
+      case 'watch':
+        await watch(io, limiter, shop, config, values);
+        break;
+      case 'top':
+        await top(io, store, limiter, config, values);
+        break;
+      default:
+        throw new UsageError(`Unknown command ${command}`);
+    }
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr.write(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    io.stderr.write(`Error: ${(error as Error).message}\n`);
+    return 1;
+  } finally {
+    await redis?.quit().catch(() => redis?.disconnect());
+  }
+}
+
+function parseCommandLine(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      url: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+      db: { type: 'string' },
+      username: { type: 'string' },
+      password: { type: 'string' },
+      tls: { type: 'boolean' },
+      capacity: { type: 'string' },
+      rate: { type: 'string' },
+      algorithm: { type: 'string' },
+      profile: { type: 'string' },
+      plan: { type: 'string' },
+      interval: { type: 'string' },
+      count: { type: 'string' },
+      limit: { type: 'string' },
+      window: { type: 'string' },
+      json: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
+
+function connect(values: CliValues): Redis {
+  const options: RedisOptions = {};
+  if (values.host !== undefined) options.host = values.host;
+  if (values.port !== undefined) options.port = integerFlag('port', values.port);
+  if (values.db !== undefined) options.db = integerFlag('db', values.db);
+  if (values.username !== undefined) options.username = values.username;
+  if (values.password !== undefined) options.password = values.password;
+  if (values.tls) options.tls = {};
+
+  const url = values.url ?? process.env.REDIS_URL;
+  return url ? new Redis(url, options) : new Redis(options);
+}
+
+/**
+ * The config given by flags, or undefined to use the shop's shared config.
+ */
+function flagConfig(values: CliValues): RateLimitConfig | undefined {
+  if (values.capacity === undefined && values.rate === undefined) {
+    if (values.algorithm !== undefined) throw new UsageError('--algorithm needs --capacity and --rate');
+    return undefined;
+  }
+  if (values.capacity === undefined || values.rate === undefined) {
+    throw new UsageError('--capacity and --rate go together');
+  }
+
+  const config: RateLimitConfig = {
+    bucketCapacity: Number(values.capacity),
+    tokensPerSecond: Number(values.rate),
+  };
+  if (values.algorithm !== undefined) config.algorithm = values.algorithm as RateLimitAlgorithm;
+  return config;
+}
+
+function profileFlag(values: CliValues): ApiProfile {
+  if (values.plan !== undefined && values.profile === undefined) throw new UsageError('--plan needs --profile');
+  const name = (values.profile ?? 'admin-graphql') as ApiProfileName;
+  if (!Object.prototype.hasOwnProperty.call(API_PROFILES, name)) throw new UsageError('Invalid --profile');
+  return API_PROFILES[name];
+}
+
+function integerFlag(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) throw new UsageError(`Invalid --${name}`);
+  return parsed;
+}
+
+async function inspect(
+  io: CliIO,
+  redis: Redis,
+  limiter: ShopifyRateLimiter,
+  shop: string,
+  config: RateLimitConfig | undefined,
+  profile: ApiProfile,
+  json: boolean | undefined
+): Promise<void> {
+  const inspection = await limiter.inspect(shop, config);
+  // -1 for keys without expiry, -2 for missing ones
+  const keys = Object.values(shopKeys(shop, profile.namespace));
+  const ttls = await Promise.all(keys.map(key => redis.pttl(key)));
+
+  if (json) {
+    const keyTtls = Object.fromEntries(keys.map((key, i) => [key, ttls[i]]));
+    io.stdout.write(`${JSON.stringify({ shop, ...inspection, keyTtls })}\n`);
+    return;
+  }
+
+  io.stdout.write(`${formatInspection(shop, inspection)}\n\n`);
+  io.stdout.write(
+    `${formatTable([
+      ['KEY', 'TTL'],
+      ...keys.map((key, i) => [key, ttls[i] === -2 ? 'missing' : ttls[i] === -1 ? 'none' : `${ttls[i]} ms`]),
+    ])}\n`
+  );
+}
+
+async function watch(
+  io: CliIO,
+  limiter: ShopifyRateLimiter,
+  shop: string,
+  config: RateLimitConfig | undefined,
+  values: CliValues
+): Promise<void> {
+  const intervalMs = values.interval !== undefined ? integerFlag('interval', values.interval) : 1000;
+  const count = values.count !== undefined ? integerFlag('count', values.count) : Infinity;
+  if (!(intervalMs > 0)) throw new UsageError('Invalid --interval');
+
+  for (let refresh = 1; refresh <= count && !io.signal?.aborted; refresh++) {
+    const inspection = await limiter.inspect(shop, config);
+    if (values.json) {
+      io.stdout.write(`${JSON.stringify({ shop, time: new Date().toISOString(), ...inspection })}\n`);
+    } else if (io.stdout.isTTY) {
+      // Clear the screen and redraw in place
+      io.stdout.write(
+        `\x1b[2J\x1b[H${formatInspection(shop, inspection)}\n\nRefreshing every ${intervalMs} ms, Ctrl+C to stop\n`
+      );
+    } else {
+      io.stdout.write(`${new Date().toISOString()}  ${formatCapacity(inspection)}\n`);
+    }
+
+    if (refresh < count) await sleep(intervalMs, io.signal).catch(() => undefined);
+  }
+}
+
+async function top(
+  io: CliIO,
+  store: RedisStore,
+  limiter: ShopifyRateLimiter,
+  config: RateLimitConfig | undefined,
+  values: CliValues
+): Promise<void> {
+  const limit = values.limit !== undefined ? integerFlag('limit', values.limit) : 10;
+  const windowMs = values.window !== undefined ? integerFlag('window', values.window) : 5 * 60 * 1000;
+  const defaultConfig = config ? undefined : (await limiter.getDefaultConfig())?.config;
+  const since = Date.now() - windowMs;
+
+  const inspections: { shop: string; throttled: number; inspection: RateLimitInspection }[] = [];
+  let skipped = 0;
+  for (const shop of await store.listShops()) {
+    const shopConfig = config ?? (await limiter.getShopConfig(shop))?.config ?? defaultConfig;
+    if (!shopConfig && values.profile === undefined) {
+      skipped++;
+      continue;
+    }
+    // The log is capped by the processes writing it, so every entry in the window is counted
+    const decisions = await store.getDecisionLog(shop, { since, limit: Number.MAX_SAFE_INTEGER });
+    const throttled = decisions.filter(decision => decision.verdict !== 'allowed').length;
+    inspections.push({ shop, throttled, inspection: await limiter.inspect(shop, shopConfig) });
+  }
+
+  // Shops with the most throttled checks come first; ties, such as shops checked without `debug`,
+  // go to those in a Shopify backoff, then those with callers queued, then the emptiest buckets
+  inspections.sort(
+    (a, b) =>
+      b.throttled - a.throttled ||
+      b.inspection.backoffMs - a.inspection.backoffMs ||
+      b.inspection.queueLength - a.inspection.queueLength ||
+      a.inspection.capacityPercentage - b.inspection.capacityPercentage
+  );
+  const listed = inspections.slice(0, limit);
+
+  if (values.json) {
+    io.stdout.write(
+      `${JSON.stringify({
+        shops: listed.map(({ shop, throttled, inspection }) => ({ shop, throttled, ...inspection })),
+        windowMs,
+        skipped,
+      })}\n`
+    );
+    return;
+  }
+
+  io.stdout.write(
+    `${formatTable([
+      ['SHOP', 'THROTTLED', 'AVAILABLE', 'IN FLIGHT', 'QUEUED', 'BACKOFF'],
+      ...listed.map(({ shop, throttled, inspection }) => [
+        shop,
+        String(throttled),
+        `${round(inspection.available)}/${inspection.bucketCapacity} (${round(inspection.capacityPercentage)}%)`,
+        String(inspection.concurrency),
+        String(inspection.queueLength),
+        inspection.backoffMs > 0 ? `${inspection.backoffMs} ms` : '-',
+      ]),
+    ])}\n`
+  );
+  if (skipped > 0) {
+    io.stdout.write(
+      `${skipped} shops without a shared config skipped; pass --capacity and --rate or --profile to include them\n`
+    );
+  }
+}
+
+function formatInspection(shop: string, inspection: RateLimitInspection): string {
+  const rows = [
+    ['Shop', shop],
+    [
+      'Tokens',
+      `${round(inspection.tokens)} consumed, ${round(inspection.available)}/${inspection.bucketCapacity} available (${round(inspection.capacityPercentage)}%)`,
+    ],
+    ['Restore rate', `${inspection.tokensPerSecond}/s`],
+    ['Safety margin', `${round(inspection.safetyMargin)} (effective capacity ${round(inspection.effectiveCapacity)})`],
+    ['Lane', `${inspection.lane.priority}, capacity ${round(inspection.lane.capacity)}`],
+    ['In flight', String(inspection.concurrency)],
+    ['Queued', String(inspection.queueLength)],
+    ['Backoff', inspection.backoffMs > 0 ? `${inspection.backoffMs} ms left` : 'none'],
+    ['Shopify state', formatShopifyState(inspection)],
+    ['Config', inspection.configVersion !== undefined ? `shared, version ${inspection.configVersion}` : 'not shared'],
+  ];
+  return rows.map(([label, value]) => `${`${label}:`.padEnd(15)}${value}`).join('\n');
+}
+
+function formatShopifyState({ shopifyState }: RateLimitInspection): string {
+  if (!shopifyState) return 'none';
+  const { throttleStatus, ageMs } = shopifyState;
+  return `${round(throttleStatus.currentlyAvailable)}/${throttleStatus.maximumAvailable} available, restoring ${throttleStatus.restoreRate}/s, observed ${round(ageMs)} ms ago`;
+}
+
+function formatCapacity(inspection: RateLimitInspection): string {
+  return [
+    `available ${round(inspection.available)}/${inspection.bucketCapacity} (${round(inspection.capacityPercentage)}%)`,
+    `in flight ${inspection.concurrency}`,
+    `queued ${inspection.queueLength}`,
+    `backoff ${inspection.backoffMs} ms`,
+  ].join('  ');
+}
+
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows
+    .map(row =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,332 @@
+import {
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  getNamedType,
+  GraphQLCompositeType,
+  GraphQLField,
+  GraphQLSchema,
+  isCompositeType,
+  isInterfaceType,
+  isObjectType,
+  Kind,
+  OperationDefinitionNode,
+  parse,
+  SelectionSetNode,
+  ValueNode,
+} from 'graphql';
+
+/**
+ * Options for the static query cost estimator.
+ */
+export interface CostEstimatorOptions {
+  /**
+   * Own cost per field, keyed by field name or by dotted path from the operation root.
+   * A path takes precedence over a cost directive, which takes precedence over a field name.
+   */
+  fieldCosts?: Record<string, number>;
+  /** Schema whose field definitions carry cost directives, e.g. `price: Money @cost(weight: 3)`. */
+  schema?: GraphQLSchema;
+  /** Name of the cost directive, whose `weight` argument is the field's own cost (default: 'cost'). */
+  costDirective?: string;
+  /** Cost of each top-level mutation field (default: 10). */
+  mutationCost?: number;
+  /** Cost of a field with a selection set (default: 1). */
+  objectCost?: number;
+  /** Fixed cost of a connection on top of its items (default: 2). */
+  connectionCost?: number;
+  /** Page size assumed when `first`/`last` cannot be resolved (default: 250). */
+  maxPageSize?: number;
+  /** Number of analysed documents kept in the cache (default: 500). */
+  cacheSize?: number;
+}
+
+/**
+ * A connection page size, either literal or read from a variable at estimation time.
+ */
+type PageSize = { value: number } | { variable: string; defaultValue?: number };
+
+/**
+ * A selected field and the type it was selected on, when a schema is known.
+ */
+interface SelectedField {
+  field: FieldNode;
+  parentType?: GraphQLCompositeType;
+}
+
+/**
+ * Analysed cost of a field: its own cost, children paid once, and children paid per connection item.
+ */
+interface CostPlan {
+  cost: number;
+  children: CostPlan[];
+  pageSize?: PageSize;
+  items: CostPlan[];
+}
+
+type Variables = Record<string, unknown>;
+
+// Connection wrappers that are free by themselves; `node`/`nodes` are charged per item
+const CONNECTION_WRAPPERS = new Set(['edges', 'pageInfo']);
+
+/**
+ * Statically estimates the requested cost of a GraphQL operation using Shopify's rules:
+ * scalars are free, objects cost 1, connections cost 2 plus `first`/`last` times their items,
+ * and mutations cost 10. Documents are analysed once and cached; variables are applied per call.
+ */
+export class QueryCostEstimator {
+  private readonly options: Required<Omit<CostEstimatorOptions, 'fieldCosts' | 'schema'>>;
+  private readonly fieldCosts: Record<string, number>;
+  private readonly schema?: GraphQLSchema;
+  private readonly cache = new Map<string, Map<string | undefined, CostPlan>>();
+  private readonly documentCache = new WeakMap<DocumentNode, Map<string | undefined, CostPlan>>();
+
+  constructor(options: CostEstimatorOptions = {}) {
+    this.fieldCosts = options.fieldCosts ?? {};
+    this.schema = options.schema;
+    this.options = {
+      costDirective: options.costDirective ?? 'cost',
+      mutationCost: options.mutationCost ?? 10,
+      objectCost: options.objectCost ?? 1,
+      connectionCost: options.connectionCost ?? 2,
+      maxPageSize: options.maxPageSize ?? 250,
+      cacheSize: options.cacheSize ?? 500,
+    };
+  }
+
+  /**
+   * Estimates the requested cost of an operation.
+   *
+   * @param document - The GraphQL document, as source text or a parsed DocumentNode.
+   * @param variables - Variables used to resolve `first`/`last` arguments.
+   * @param operationName - The operation to estimate when the document holds several.
+   * @returns The estimated requested cost.
+   */
+  estimate(document: string | DocumentNode, variables: Variables = {}, operationName?: string): number {
+    return this.evaluate(this.getPlan(document, operationName), variables);
+  }
+
+  private getPlan(document: string | DocumentNode, operationName?: string): CostPlan {
+    let plans: Map<string | undefined, CostPlan> | undefined;
+    if (typeof document === 'string') {
+      plans = this.cache.get(document);
+      if (plans) {
+        // Refresh the entry so the cache evicts the least recently used document
+        this.cache.delete(document);
+      } else {
+        plans = new Map();
+      }
+      this.cache.set(document, plans);
+      if (this.cache.size > this.options.cacheSize) {
+        this.cache.delete(this.cache.keys().next().value!);
+      }
+    } else {
+      plans = this.documentCache.get(document);
+      if (!plans) {
+        plans = new Map();
+        this.documentCache.set(document, plans);
+      }
+    }
+
+    let plan = plans.get(operationName);
+    if (!plan) {
+      plan = this.analyse(typeof document === 'string' ? parse(document) : document, operationName);
+      plans.set(operationName, plan);
+    }
+    return plan;
+  }
+
+  private analyse(document: DocumentNode, operationName?: string): CostPlan {
+    const operations = document.definitions.filter(
+      (definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION
+    );
+    const operation = operationName
+      ? operations.find(definition => definition.name?.value === operationName)
+      : operations.length === 1
+        ? operations[0]
+        : undefined;
+    if (!operation) {
+      throw new Error(operationName ? `Unknown operation ${operationName}` : 'Operation name required');
+    }
+
+    const fragments = new Map<string, FragmentDefinitionNode>();
+    for (const definition of document.definitions) {
+      if (definition.kind === Kind.FRAGMENT_DEFINITION) fragments.set(definition.name.value, definition);
+    }
+
+    const variableDefaults = new Map<string, number>();
+    for (const definition of operation.variableDefinitions ?? []) {
+      if (definition.defaultValue?.kind === Kind.INT) {
+        variableDefaults.set(definition.variable.name.value, parseInt(definition.defaultValue.value, 10));
+      }
+    }
+
+    const rootType = this.schema?.getRootType(operation.operation) ?? undefined;
+    const fields = this.collectFields(operation.selectionSet, fragments, new Set(), rootType);
+    if (operation.operation === 'mutation') {
+      return {
+        cost: 0,
+        children: fields.map(({ field, parentType }) => {
+          const name = field.name.value;
+          return {
+            cost: this.fieldCost(name, name, this.options.mutationCost, this.fieldDefinition(parentType, name)),
+            children: [],
+            items: [],
+          };
+        }),
+        items: [],
+      };
+    }
+
+    return {
+      cost: 0,
+      children: fields.map(selected => this.analyseField(selected, '', fragments, variableDefaults)),
+      items: [],
+    };
+  }
+
+  private analyseField(
+    { field, parentType }: SelectedField,
+    parentPath: string,
+    fragments: Map<string, FragmentDefinitionNode>,
+    variableDefaults: Map<string, number>
+  ): CostPlan {
+    const name = field.name.value;
+    const path = parentPath ? `${parentPath}.${name}` : name;
+    const definition = this.fieldDefinition(parentType, name);
+
+    if (!field.selectionSet) {
+      return { cost: this.fieldCost(name, path, 0, definition), children: [], items: [] };
+    }
+
+    const fieldType = definition && getNamedType(definition.type);
+    const subfields = this.collectFields(
+      field.selectionSet,
+      fragments,
+      new Set(),
+      isCompositeType(fieldType) ? fieldType : undefined
+    );
+    const pageSizeArg = field.arguments?.find(arg => arg.name.value === 'first' || arg.name.value === 'last');
+    if (!pageSizeArg) {
+      return {
+        cost: this.fieldCost(name, path, this.options.objectCost, definition),
+        children: subfields.map(subfield => this.analyseField(subfield, path, fragments, variableDefaults)),
+        items: [],
+      };
+    }
+
+    const plan: CostPlan = {
+      cost: this.fieldCost(name, path, this.options.connectionCost, definition),
+      children: [],
+      pageSize: this.pageSize(pageSizeArg.value, variableDefaults),
+      items: [],
+    };
+    for (const subfield of subfields) {
+      const subname = subfield.field.name.value;
+      const subpath = `${path}.${subname}`;
+      if (subname === 'edges' && subfield.field.selectionSet) {
+        // Each edge is free, but its node and any other object fields are paid per item
+        const edgeType = getNamedType(this.fieldDefinition(subfield.parentType, subname)?.type);
+        const edgeFields = this.collectFields(
+          subfield.field.selectionSet,
+          fragments,
+          new Set(),
+          isCompositeType(edgeType) ? edgeType : undefined
+        );
+        plan.items.push(
+          ...edgeFields.map(edgeField => this.analyseField(edgeField, subpath, fragments, variableDefaults))
+        );
+      } else if (subname === 'nodes') {
+        plan.items.push(this.analyseField(subfield, path, fragments, variableDefaults));
+      } else if (!CONNECTION_WRAPPERS.has(subname)) {
+        plan.children.push(this.analyseField(subfield, path, fragments, variableDefaults));
+      }
+    }
+    return plan;
+  }
+
+  private collectFields(
+    selectionSet: SelectionSetNode,
+    fragments: Map<string, FragmentDefinitionNode>,
+    visited: Set<string>,
+    parentType?: GraphQLCompositeType
+  ): SelectedField[] {
+    const fields: SelectedField[] = [];
+    for (const selection of selectionSet.selections) {
+      if (selection.kind === Kind.FIELD) {
+        if (selection.name.value !== '__typename') fields.push({ field: selection, parentType });
+      } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+        const fragmentType = this.conditionType(selection.typeCondition?.name.value) ?? parentType;
+        fields.push(...this.collectFields(selection.selectionSet, fragments, visited, fragmentType));
+      } else {
+        const fragmentName = selection.name.value;
+        const fragment = fragments.get(fragmentName);
+        if (!fragment) throw new Error(`Unknown fragment ${fragmentName}`);
+        if (visited.has(fragmentName)) continue;
+        fields.push(
+          ...this.collectFields(
+            fragment.selectionSet,
+            fragments,
+            new Set(visited).add(fragmentName),
+            this.conditionType(fragment.typeCondition.name.value) ?? parentType
+          )
+        );
+      }
+    }
+    return fields;
+  }
+
+  private conditionType(name: string | undefined): GraphQLCompositeType | undefined {
+    const type = name !== undefined ? this.schema?.getType(name) : undefined;
+    return isCompositeType(type) ? type : undefined;
+  }
+
+  private fieldDefinition(
+    parentType: GraphQLCompositeType | undefined,
+    name: string
+  ): GraphQLField<unknown, unknown> | undefined {
+    return isObjectType(parentType) || isInterfaceType(parentType) ? parentType.getFields()[name] : undefined;
+  }
+
+  private directiveCost(definition: GraphQLField<unknown, unknown> | undefined): number | undefined {
+    const directive = definition?.astNode?.directives?.find(node => node.name.value === this.options.costDirective);
+    const weight = directive?.arguments?.find(argument => argument.name.value === 'weight')?.value;
+    if (weight?.kind !== Kind.INT && weight?.kind !== Kind.FLOAT && weight?.kind !== Kind.STRING) return undefined;
+    const cost = parseFloat(weight.value);
+    return Number.isFinite(cost) ? cost : undefined;
+  }
+
+  private pageSize(value: ValueNode, variableDefaults: Map<string, number>): PageSize {
+    if (value.kind === Kind.INT) return { value: parseInt(value.value, 10) };
+    if (value.kind === Kind.VARIABLE) {
+      return { variable: value.name.value, defaultValue: variableDefaults.get(value.name.value) };
+    }
+    return { value: this.options.maxPageSize };
+  }
+
+  private fieldCost(
+    name: string,
+    path: string,
+    defaultCost: number,
+    definition?: GraphQLField<unknown, unknown>
+  ): number {
+    return this.fieldCosts[path] ?? this.directiveCost(definition) ?? this.fieldCosts[name] ?? defaultCost;
+  }
+
+  private evaluate(plan: CostPlan, variables: Variables): number {
+    let cost = plan.cost;
+    for (const child of plan.children) cost += this.evaluate(child, variables);
+    if (plan.pageSize) {
+      let itemCost = 0;
+      for (const item of plan.items) itemCost += this.evaluate(item, variables);
+      cost += this.resolvePageSize(plan.pageSize, variables) * itemCost;
+    }
+    return cost;
+  }
+
+  private resolvePageSize(pageSize: PageSize, variables: Variables): number {
+    if ('value' in pageSize) return pageSize.value;
+    const value = variables[pageSize.variable] ?? pageSize.defaultValue;
+    return typeof value === 'number' && value >= 0 ? value : this.options.maxPageSize;
+  }
+}
@@ -0,0 +1,44 @@
+import type { BulkOperationType } from './bulk-operation-coordinator';
+import type { RateLimitResponse } from './rate-limiter';
+
+/**
+ * Thrown by `schedule` when an operation could not be admitted within its retry or time budget.
+ */
+export class RateLimitTimeoutError extends Error {
+  readonly shop: string;
+  readonly attempts: number;
+  readonly lastResponse: RateLimitResponse;
+
+  constructor(shop: string, attempts: number, lastResponse: RateLimitResponse) {
+    super(`Rate limit not admitted for ${shop} after ${attempts} attempts`);
+    this.name = 'RateLimitTimeoutError';
+    this.shop = shop;
+    this.attempts = attempts;
+    this.lastResponse = lastResponse;
+  }
+}
+
+/**
+ * Thrown by `BulkOperationCoordinator.waitForSlot` when the slot did not free up within the timeout.
+ */
+export class BulkOperationTimeoutError extends Error {
+  readonly shop: string;
+  readonly type: BulkOperationType;
+
+  constructor(shop: string, type: BulkOperationType) {
+    super(`Bulk ${type} slot of ${shop} did not free up in time`);
+    this.name = 'BulkOperationTimeoutError';
+    this.shop = shop;
+    this.type = type;
+  }
+}
+
+/**
+ * Thrown in place of a store call while the circuit breaker keeps callers away from the store.
+ */
+export class StoreUnavailableError extends Error {
+  constructor() {
+    super('Rate limit store unavailable: circuit breaker is open');
+    this.name = 'StoreUnavailableError';
+  }
+}
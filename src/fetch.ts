@@ -0,0 +1,100 @@
+import type { RateLimitConfig, ScheduleOptions, ShopifyRateLimiter } from './rate-limiter';
+import type { ShopifyResponseObservation } from './shopify-response';
+
+/**
+ * The JSON body of a GraphQL request.
+ */
+export interface GraphQLRequestBody {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}
+
+/**
+ * Options for `createRateLimitedFetch`.
+ */
+export interface RateLimitedFetchOptions {
+  limiter: ShopifyRateLimiter;
+  /** Returns the shop a request is for, e.g. from its hostname. */
+  shopFromRequest: (request: Request) => string;
+  /** Rate limiting configuration; the shop's shared configuration when omitted. */
+  config?: RateLimitConfig;
+  /** Requested cost of a request; estimated from the query when omitted. */
+  cost?: (body: GraphQLRequestBody, request: Request) => number;
+  /** Underlying fetch implementation (default: the global fetch). */
+  fetch?: typeof fetch;
+  /** How many times a THROTTLED response is retried before it is returned (default: 3). */
+  maxThrottleRetries?: number;
+  /** Options passed to `schedule` while waiting for admission. */
+  schedule?: ScheduleOptions;
+}
+
+/**
+ * Creates a `fetch`-compatible function for the Shopify Admin GraphQL endpoint. Every request is
+ * admitted through the limiter, its response is fed back through `observeResponse`, the
+ * concurrency lease is always released, and THROTTLED responses are retried.
+ *
+ * @param options - The limiter, shop resolution and rate limiting configuration.
+ * @returns A function with the same signature as `fetch`.
+ */
+export function createRateLimitedFetch(options: RateLimitedFetchOptions): typeof fetch {
+  const { limiter, shopFromRequest, config, maxThrottleRetries = 3 } = options;
+  const baseFetch = options.fetch ?? fetch;
+
+  return async (input, init) => {
+    const request = new Request(input, init);
+    const bodyText = await request.text();
+    const body = parseRequestBody(bodyText);
+    const shop = shopFromRequest(request);
+    const cost = options.cost
+      ? options.cost(body, request)
+      : limiter.estimateCost(body.query, body.variables, body.operationName);
+
+    for (let attempt = 0; ; attempt++) {
+      const { response, observation } = await limiter.schedule(
+        shop,
+        cost,
+        config,
+        async reservation => {
+          const response = await baseFetch(request.url, {
+            method: request.method,
+            headers: request.headers,
+            body: bodyText,
+            signal: request.signal,
+          });
+          // Reading the body takes time; Shopify reported the throttle status when it responded
+          const observedAt = limiter.clock();
+
+          let observation: ShopifyResponseObservation | undefined;
+          const responseBody = await response
+            .clone()
+            .json()
+            .catch(() => undefined);
+          if (responseBody && typeof responseBody === 'object') {
+            observation = await limiter.observeResponse(shop, responseBody, reservation, observedAt);
+          }
+          return { response, observation };
+        },
+        { signal: request.signal, ...options.schedule }
+      );
+
+      // The observed THROTTLED error has backed the shop off, so the next schedule waits for it
+      if (!observation?.throttled || attempt >= maxThrottleRetries) {
+        return response;
+      }
+    }
+  };
+}
+
+function parseRequestBody(bodyText: string): GraphQLRequestBody {
+  let body: Partial<GraphQLRequestBody> | undefined;
+  try {
+    body = JSON.parse(bodyText);
+  } catch {
+    // Reported below
+  }
+  if (typeof body?.query !== 'string') {
+    throw new TypeError('Request body is not a GraphQL operation');
+  }
+  return body as GraphQLRequestBody;
+}
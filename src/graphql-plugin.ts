@@ -0,0 +1,184 @@
+import { DocumentNode, ExecutionArgs, ExecutionResult, GraphQLError, GraphQLSchema } from 'graphql';
+import { CostEstimatorOptions, QueryCostEstimator } from './cost-estimator';
+import { RateLimitConfig, RateLimitReservation, ShopifyRateLimiter } from './rate-limiter';
+import type { ShopifyQueryCost } from './shopify-response';
+
+/**
+ * Options of the GraphQL server plugins, which limit a server's own clients by query cost.
+ */
+export interface RateLimitPluginOptions<TContext = any> {
+  limiter: ShopifyRateLimiter;
+  /**
+   * Identifies the client an operation is charged to, e.g. by API key or user ID. Clients get a
+   * bucket each, keyed like a shop. Return null or undefined to let an operation through unlimited.
+   */
+  key: (context: TContext) => string | null | undefined | Promise<string | null | undefined>;
+  /** Configuration of every client's bucket; the client's shared configuration when omitted. */
+  config?: RateLimitConfig;
+  /**
+   * Options of the cost estimator. It is created per schema, so fields are also priced by the
+   * schema's cost directives.
+   */
+  costEstimator?: CostEstimatorOptions;
+}
+
+/**
+ * The envelop plugin hooks used by `useRateLimiter`, as called by envelop and GraphQL Yoga.
+ */
+export interface RateLimitEnvelopPlugin {
+  onExecute(payload: {
+    args: ExecutionArgs;
+    setResultAndStopExecution(result: ExecutionResult): void;
+  }): Promise<void | { onExecuteDone(): Promise<void> }>;
+}
+
+/**
+ * The Apollo Server plugin hooks used by `createApolloRateLimitPlugin`.
+ */
+export interface RateLimitApolloPlugin<TContext = any> {
+  requestDidStart(requestContext: { contextValue: TContext }): Promise<{
+    didResolveOperation(requestContext: ApolloOperationContext<TContext>): Promise<void>;
+    willSendResponse(requestContext: ApolloResponseContext): Promise<void>;
+  }>;
+}
+
+/**
+ * The parts of Apollo Server's request context read once the operation is resolved.
+ */
+export interface ApolloOperationContext<TContext = any> {
+  schema: GraphQLSchema;
+  document: DocumentNode;
+  operationName?: string | null;
+  request: { variables?: Record<string, unknown> };
+  contextValue: TContext;
+}
+
+/**
+ * The parts of Apollo Server's request context written before the response is sent.
+ */
+export interface ApolloResponseContext {
+  response: { body: { kind: 'single'; singleResult: ExecutionResult } | { kind: 'incremental' } };
+}
+
+/**
+ * Outcome of admitting an operation: a lease to release once it ran, or the rejection to send.
+ */
+type Admission =
+  | { allowed: true; key: string; reservation: RateLimitReservation }
+  | { allowed: false; error: GraphQLError; cost: ShopifyQueryCost };
+
+/**
+ * Creates an envelop plugin, also usable with GraphQL Yoga, that charges each operation's
+ * estimated cost to its client's bucket before it executes. Throttled operations are answered
+ * with a `THROTTLED` error and a Shopify-style `extensions.cost` block instead of being executed.
+ *
+ * @param options - Limiter, client key function, configuration and cost estimator options.
+ */
+export function useRateLimiter<TContext = any>(options: RateLimitPluginOptions<TContext>): RateLimitEnvelopPlugin {
+  const admit = createAdmission(options);
+
+  return {
+    async onExecute({ args, setResultAndStopExecution }) {
+      const admission = await admit(
+        args.schema,
+        args.document,
+        args.variableValues ?? undefined,
+        args.operationName ?? undefined,
+        args.contextValue as TContext
+      );
+      if (!admission) return;
+
+      if (!admission.allowed) {
+        setResultAndStopExecution({ errors: [admission.error], extensions: { cost: admission.cost } });
+        return;
+      }
+      return {
+        async onExecuteDone() {
+          await options.limiter.releaseConcurrency(admission.key, admission.reservation.leaseId);
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Creates an Apollo Server plugin that charges each operation's estimated cost to its client's
+ * bucket once the operation is resolved. Throttled operations are answered with a `THROTTLED`
+ * error and a Shopify-style `extensions.cost` block instead of being executed.
+ *
+ * @param options - Limiter, client key function, configuration and cost estimator options.
+ */
+export function createApolloRateLimitPlugin<TContext = any>(
+  options: RateLimitPluginOptions<TContext>
+): RateLimitApolloPlugin<TContext> {
+  const admit = createAdmission(options);
+
+  return {
+    async requestDidStart() {
+      let admission: Admission | null = null;
+
+      return {
+        async didResolveOperation({ schema, document, operationName, request, contextValue }) {
+          admission = await admit(schema, document, request.variables, operationName ?? undefined, contextValue);
+          // Apollo Server answers with the thrown error; the cost block is added before sending
+          if (admission && !admission.allowed) throw admission.error;
+        },
+        async willSendResponse({ response }) {
+          if (!admission) return;
+          if (admission.allowed) {
+            await options.limiter.releaseConcurrency(admission.key, admission.reservation.leaseId);
+          } else if (response.body.kind === 'single') {
+            const result = response.body.singleResult;
+            result.extensions = { ...result.extensions, cost: admission.cost };
+          }
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Estimates an operation's cost and checks it against the client's bucket.
+ */
+function createAdmission<TContext>(options: RateLimitPluginOptions<TContext>) {
+  const { limiter, key, config } = options;
+  const estimators = new WeakMap<GraphQLSchema, QueryCostEstimator>();
+
+  return async (
+    schema: GraphQLSchema,
+    document: DocumentNode,
+    variables: Record<string, unknown> | undefined,
+    operationName: string | undefined,
+    context: TContext
+  ): Promise<Admission | null> => {
+    const client = await key(context);
+    if (client === null || client === undefined) return null;
+
+    let estimator = estimators.get(schema);
+    if (!estimator) {
+      estimator = new QueryCostEstimator({ ...options.costEstimator, schema });
+      estimators.set(schema, estimator);
+    }
+    const requestedQueryCost = estimator.estimate(document, variables, operationName);
+
+    const response = await limiter.checkLimit(client, requestedQueryCost, config);
+    if (response.allowed) return { allowed: true, key: client, reservation: response.reservation! };
+
+    const inspection = await limiter.inspect(client, config);
+    return {
+      allowed: false,
+      error: new GraphQLError('Throttled', {
+        extensions: { code: 'THROTTLED', retryAfterMs: response.waitTimeMs },
+      }),
+      cost: {
+        requestedQueryCost,
+        actualQueryCost: null,
+        throttleStatus: {
+          maximumAvailable: inspection.bucketCapacity,
+          currentlyAvailable: Math.floor(inspection.available),
+          restoreRate: inspection.tokensPerSecond,
+        },
+      },
+    };
+  };
+}
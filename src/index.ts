@@ -1 +1,14 @@
 export * from './rate-limiter';
+export * from './errors';
+export * from './shopify-response';
+export * from './cost-estimator';
+export * from './fetch';
+export * from './store';
+export * from './redis-store';
+export * from './memory-store';
+export * from './metrics';
+export * from './bulk-operation-coordinator';
+export * from './resilient-store';
+export * from './simulator';
+export * from './graphql-plugin';
+export * from './api-profiles';
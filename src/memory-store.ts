@@ -0,0 +1,575 @@
+import { EventEmitter } from 'events';
+import type { RateLimitAlgorithm, RateLimitConfig, ShopifyThrottle } from './rate-limiter';
+import type {
+  BudgetUsage,
+  Clock,
+  DecisionLogEntry,
+  DecisionLogOptions,
+  DecisionLogQuery,
+  LimitDecision,
+  LimitInspection,
+  LimitRequest,
+  RateLimitStore,
+  StoredConfig,
+} from './store';
+
+/**
+ * Bucket state held for a single shop.
+ */
+interface ShopState {
+  tokens: number;
+  lastUpdate?: number;
+  /** Theoretical arrival time of the GCRA algorithm, kept apart from the token bucket. */
+  tat?: number;
+  shopifyState?: { throttleStatus: ShopifyThrottle; observedAt: number; expiresAt: number };
+  leases: Map<string, number>;
+  /** Fair queue tickets in join order, mapped to their deadline. */
+  queue: Map<string, number>;
+  backoffUntil: number;
+  /** Decision log entries, oldest first. */
+  decisions: DecisionLogEntry[];
+  /** Budgets by key, with the end of their current window. */
+  budgets: Map<string, BudgetState>;
+}
+
+/**
+ * A budget's spending in its current window.
+ */
+interface BudgetState {
+  spent: number;
+  maxCost: number;
+  window: number;
+  resetAt: number;
+}
+
+const DEFAULT_SHOPIFY_STATE_TTL_MS = 10000;
+const DEFAULT_DECISION_LOG_MAX_ENTRIES = 1000;
+const DEFAULT_DECISION_LOG_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Options for constructing a MemoryStore.
+ */
+export interface MemoryStoreOptions {
+  /** Retention of the per-shop decision log. */
+  decisionLog?: DecisionLogOptions;
+  /** How long a synced Shopify throttle status is used, in milliseconds (default: 10000). */
+  shopifyStateTtlMs?: number;
+  /** Source of the current time, e.g. a virtual clock in tests and simulations (default: `Date.now`). */
+  clock?: Clock;
+}
+
+/**
+ * RateLimitStore that keeps bucket state in process memory. It runs the same algorithm as the
+ * Redis scripts, for single-process tools, CLIs and tests that should not need a Redis server.
+ */
+export class MemoryStore implements RateLimitStore {
+  private readonly shops = new Map<string, ShopState>();
+  /** Shared configurations by shop; the default is stored under null. */
+  private readonly configs = new Map<string | null, StoredConfig>();
+  private readonly wakeups = new EventEmitter().setMaxListeners(0);
+  private readonly decisionLogMaxEntries: number;
+  private readonly decisionLogRetentionMs: number;
+  private readonly shopifyStateTtlMs: number;
+  private readonly clock: Clock;
+  private decisionSequence = 0;
+
+  constructor(options: MemoryStoreOptions = {}) {
+    this.decisionLogMaxEntries = options.decisionLog?.maxEntries ?? DEFAULT_DECISION_LOG_MAX_ENTRIES;
+    this.decisionLogRetentionMs = options.decisionLog?.retentionMs ?? DEFAULT_DECISION_LOG_RETENTION_MS;
+    this.shopifyStateTtlMs = options.shopifyStateTtlMs ?? DEFAULT_SHOPIFY_STATE_TTL_MS;
+    this.clock = options.clock ?? Date.now;
+  }
+
+  async checkLimit(shop: string, request: LimitRequest): Promise<LimitDecision> {
+    return this.evaluate(shop, request, false);
+  }
+
+  async checkLimitMany(checks: { shop: string; request: LimitRequest }[]): Promise<LimitDecision[]> {
+    const decisions: LimitDecision[] = [];
+    for (const { shop, request } of checks) {
+      decisions.push(await this.checkLimit(shop, request));
+    }
+    return decisions;
+  }
+
+  async inspect(shop: string, request: LimitRequest): Promise<LimitInspection> {
+    return this.evaluate(shop, request, true) as Promise<LimitInspection>;
+  }
+
+  private async evaluate(shop: string, request: LimitRequest, dryRun: boolean): Promise<LimitDecision> {
+    const { cost, maxConcurrency } = request;
+    let { tokensPerSecond, bucketCapacity } = request;
+    // Dry runs record nothing
+    const debug = request.debug && !dryRun;
+    const state = dryRun ? (this.shops.get(shop) ?? createShopState()) : this.getShop(shop);
+    const now = this.clock();
+    const { ticketId } = request;
+
+    // Decision log: the inputs and intermediate values of the check, filled in as they are computed
+    let decision: Omit<DecisionLogEntry, 'id' | 'verdict' | 'waitTimeMs' | 'remaining'> = {
+      timestamp: now,
+      leaseId: request.leaseId,
+      cost,
+    };
+    const logDecision = (verdict: DecisionLogEntry['verdict'], waitTimeMs: number, remaining: number) => {
+      if (debug) this.logDecision(state, { ...decision, verdict, waitTimeMs, remaining, queuePosition });
+    };
+
+    // Fair queue: drop abandoned tickets, then join or refresh the caller's ticket
+    let queuePosition: number | undefined;
+    if (ticketId && !dryRun) {
+      for (const [queued, deadline] of state.queue) {
+        if (deadline <= now) state.queue.delete(queued);
+      }
+      state.queue.set(ticketId, now + (request.ticketTimeoutMs ?? 0));
+      queuePosition = [...state.queue.keys()].indexOf(ticketId);
+    }
+
+    // Long-window budget of the check's key, charged with the requested cost alongside the bucket
+    let budget: (BudgetState & { key: string }) | undefined;
+    if (request.budget) {
+      const { key, window, maxCost } = request.budget;
+      const stored = state.budgets.get(key);
+      // A window that has ended starts over with the next charge
+      budget =
+        stored && stored.resetAt > now
+          ? { ...stored, key, maxCost, window }
+          : { key, spent: 0, maxCost, window, resetAt: now + window };
+      decision = { ...decision, budgetKey: key, budgetRemaining: Math.max(0, maxCost - budget.spent) };
+    }
+    const budgetFits = !budget || budget.spent + cost <= budget.maxCost;
+    const usage = () => budget && { budget: budgetUsage(budget.key, budget, now) };
+
+    // Hold everyone back while Shopify has throttled the shop
+    const backoffMs = Math.max(0, state.backoffUntil - now);
+    if (backoffMs > 0 && !dryRun) {
+      logDecision('backoff', backoffMs, 0);
+      return {
+        allowed: false,
+        waitTimeMs: backoffMs,
+        remaining: 0,
+        adjustedCost: cost,
+        laneCapacity: 0,
+        queuePosition,
+        ...usage(),
+      };
+    }
+
+    const algorithm = request.algorithm ?? 'adaptive';
+    let currentTokens = loadTokens(state, algorithm, tokensPerSecond, now);
+
+    // Sync with Shopify's state while it is fresh, projected forward by what it restored since it was observed.
+    // Reservations made since then are only in the local level, so the fuller of the two wins.
+    const shopifySynced = !!state.shopifyState && state.shopifyState.expiresAt > now;
+    if (shopifySynced) {
+      const { throttleStatus, observedAt } = state.shopifyState!;
+      const ageMs = Math.max(0, now - observedAt);
+      const available = Math.min(
+        throttleStatus.maximumAvailable,
+        throttleStatus.currentlyAvailable + (ageMs / 1000) * throttleStatus.restoreRate
+      );
+      currentTokens = Math.max(currentTokens, throttleStatus.maximumAvailable - available);
+      tokensPerSecond = throttleStatus.restoreRate;
+      bucketCapacity = throttleStatus.maximumAvailable;
+    }
+
+    let currentConcurrency: number;
+    if (dryRun) {
+      // Count the leases that are still live without reaping the others
+      currentConcurrency = [...state.leases.values()].filter(deadline => deadline > now).length;
+    } else {
+      // Reap leases whose deadline has passed, e.g. from crashed workers
+      this.reapLeases(state, now);
+      currentConcurrency = state.leases.size;
+    }
+    const groupLeaseIds = request.groupLeaseIds ?? [];
+    const effectiveConcurrency = currentConcurrency + 1 + groupLeaseIds.length;
+
+    const { capacityPercentage, marginMultiplier, dynamicBaseMargin, concurrencyMargin, safetyMargin, ...policy } =
+      algorithm === 'adaptive'
+        ? adaptivePolicy(request, currentTokens, bucketCapacity, tokensPerSecond, effectiveConcurrency)
+        : plainPolicy(request, currentTokens, bucketCapacity, tokensPerSecond);
+    const { effectiveCapacity, laneCapacity, adjustedCost } = policy;
+    // Over budget: nothing is admitted under the key until its window ends
+    const waitTimeMs = budgetFits ? policy.waitTimeMs : Math.max(policy.waitTimeMs, budget!.resetAt - now);
+
+    decision = {
+      ...decision,
+      tokensPerSecond,
+      bucketCapacity,
+      maxConcurrency,
+      laneShare: request.laneShare,
+      shopifySynced,
+      tokens: currentTokens,
+      concurrency: effectiveConcurrency,
+      capacityPercentage,
+      marginMultiplier,
+      baseMargin: dynamicBaseMargin,
+      concurrencyMargin,
+      safetyMargin,
+      laneCapacity,
+      adjustedCost,
+    };
+
+    // Dry runs report the decision and the bucket state without changing anything
+    if (dryRun) {
+      const shopifyState = shopifySynced ? state.shopifyState! : undefined;
+      const snapshot = {
+        tokens: currentTokens,
+        concurrency: currentConcurrency,
+        bucketCapacity,
+        tokensPerSecond,
+        capacityPercentage,
+        safetyMargin,
+        effectiveCapacity,
+        backoffMs,
+        queueLength: [...state.queue.values()].filter(deadline => deadline > now).length,
+        ...(shopifyState && {
+          shopifyState: {
+            throttleStatus: { ...shopifyState.throttleStatus },
+            ageMs: Math.max(0, now - shopifyState.observedAt),
+          },
+        }),
+      };
+      const fits = budgetFits && currentTokens + adjustedCost <= laneCapacity;
+      const decision = (allowed: boolean, wait: number, remaining: number): LimitInspection => ({
+        allowed,
+        waitTimeMs: wait,
+        remaining: Math.trunc(remaining),
+        adjustedCost,
+        laneCapacity,
+        snapshot,
+        ...usage(),
+      });
+
+      if (backoffMs > 0) return decision(false, backoffMs, 0);
+      if (fits) return decision(true, 0, Math.max(0, laneCapacity - (currentTokens + adjustedCost)));
+      return decision(false, waitTimeMs, Math.max(0, laneCapacity - currentTokens));
+    }
+
+    // Check if we can proceed; queued callers also have to be first in line
+    if (!queuePosition && budgetFits && currentTokens + adjustedCost <= laneCapacity) {
+      saveTokens(state, algorithm, currentTokens + adjustedCost, tokensPerSecond, now);
+      if (budget) {
+        budget.spent += cost;
+        const { spent, maxCost, window, resetAt } = budget;
+        state.budgets.set(budget.key, { spent, maxCost, window, resetAt });
+      }
+      for (const leaseId of [request.leaseId, ...groupLeaseIds]) {
+        state.leases.set(leaseId, now + request.leaseTimeoutMs);
+      }
+
+      // Leave the queue and let the next caller in line check right away
+      if (ticketId) {
+        state.queue.delete(ticketId);
+        if (state.queue.size > 0) this.wakeups.emit(shop);
+      }
+
+      const remaining = Math.max(0, laneCapacity - (currentTokens + adjustedCost));
+      logDecision('allowed', 0, remaining);
+      return {
+        allowed: true,
+        waitTimeMs: 0,
+        remaining: Math.trunc(remaining),
+        adjustedCost,
+        laneCapacity,
+        ...usage(),
+      };
+    }
+
+    const remaining = Math.max(0, laneCapacity - currentTokens);
+    logDecision('throttled', waitTimeMs, remaining);
+    return {
+      allowed: false,
+      waitTimeMs,
+      remaining: Math.trunc(remaining),
+      adjustedCost,
+      laneCapacity,
+      queuePosition,
+      ...usage(),
+    };
+  }
+
+  async commit(
+    shop: string,
+    reservedCost: number,
+    actualCost: number,
+    tokensPerSecond: number,
+    algorithm: RateLimitAlgorithm = 'adaptive',
+    budget?: { key: string; reservedCost: number }
+  ): Promise<number> {
+    const state = this.getShop(shop);
+    const now = this.clock();
+
+    // Bring the bucket up to date before applying the difference
+    const currentTokens = loadTokens(state, algorithm, tokensPerSecond, now);
+
+    const level = Math.max(0, currentTokens + actualCost - reservedCost);
+    saveTokens(state, algorithm, level, tokensPerSecond, now);
+
+    // Reconcile the budget charged at admission too, unless its window has ended since
+    const stored = budget && state.budgets.get(budget.key);
+    if (stored && stored.resetAt > now) stored.spent = Math.max(0, stored.spent + actualCost - budget!.reservedCost);
+    return level;
+  }
+
+  async getBudgetUsage(shop: string): Promise<BudgetUsage[]> {
+    const state = this.shops.get(shop);
+    if (!state) return [];
+
+    const now = this.clock();
+    return [...state.budgets]
+      .filter(([, budget]) => budget.resetAt > now)
+      .map(([key, budget]) => budgetUsage(key, budget, now))
+      .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  }
+
+  async releaseConcurrency(shop: string, leaseId: string): Promise<void> {
+    const state = this.shops.get(shop);
+    if (state?.leases.delete(leaseId) && state.queue.size > 0) this.wakeups.emit(shop);
+  }
+
+  async getDecisionLog(shop: string, query: DecisionLogQuery = {}): Promise<DecisionLogEntry[]> {
+    const state = this.shops.get(shop);
+    if (!state || this.decisionLogExpired(state, this.clock())) return [];
+
+    const since = query.since ?? -Infinity;
+    return state.decisions
+      .filter(entry => entry.timestamp >= since)
+      .reverse()
+      .slice(0, query.limit ?? 100);
+  }
+
+  async leaveQueue(shop: string, ticketId: string): Promise<void> {
+    const state = this.shops.get(shop);
+    if (state?.queue.delete(ticketId) && state.queue.size > 0) this.wakeups.emit(shop);
+  }
+
+  async waitForWake(shop: string, timeoutMs: number, signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    return new Promise<void>((resolve, reject) => {
+      const finish = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.wakeups.off(shop, onWake);
+      };
+      const onWake = () => {
+        finish();
+        resolve();
+      };
+      const onAbort = () => {
+        finish();
+        reject(signal!.reason);
+      };
+      const timer = setTimeout(onWake, timeoutMs);
+
+      this.wakeups.on(shop, onWake);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  async syncShopifyState(shop: string, throttleStatus: ShopifyThrottle, observedAt: number): Promise<boolean> {
+    const state = this.getShop(shop);
+    const now = this.clock();
+    // A late response must not overwrite what a newer one reported
+    if (state.shopifyState && state.shopifyState.expiresAt > now && state.shopifyState.observedAt > observedAt) {
+      return false;
+    }
+
+    // The state is used for shopifyStateTtlMs from when it was observed, not from when it arrived
+    const expiresAt = observedAt + this.shopifyStateTtlMs;
+    if (expiresAt <= now) return false;
+
+    state.shopifyState = { throttleStatus: { ...throttleStatus }, observedAt, expiresAt };
+    return true;
+  }
+
+  async backoff(shop: string, durationMs: number): Promise<void> {
+    this.getShop(shop).backoffUntil = this.clock() + durationMs;
+  }
+
+  async setConfig(shop: string | null, config: RateLimitConfig): Promise<number> {
+    const version = (this.configs.get(shop)?.version ?? 0) + 1;
+    // Stored as a copy, like the JSON kept by Redis, so later changes by the caller do not leak in
+    this.configs.set(shop, { config: JSON.parse(JSON.stringify(config)), version });
+    return version;
+  }
+
+  async getConfig(shop: string | null): Promise<StoredConfig | null> {
+    const stored = this.configs.get(shop);
+    return stored ? { config: JSON.parse(JSON.stringify(stored.config)), version: stored.version } : null;
+  }
+
+  async cleanupShop(shop: string): Promise<void> {
+    this.shops.delete(shop);
+  }
+
+  private getShop(shop: string): ShopState {
+    let state = this.shops.get(shop);
+    if (!state) {
+      state = createShopState();
+      this.shops.set(shop, state);
+    }
+    return state;
+  }
+
+  private reapLeases(state: ShopState, now: number): void {
+    for (const [leaseId, deadline] of state.leases) {
+      if (deadline <= now) state.leases.delete(leaseId);
+    }
+  }
+
+  private logDecision(state: ShopState, entry: Omit<DecisionLogEntry, 'id'>): void {
+    // Like an expiring Redis key, the whole log is dropped once it has not been written to for the retention
+    if (this.decisionLogExpired(state, entry.timestamp)) state.decisions = [];
+
+    state.decisions.push({ id: `${entry.timestamp}-${this.decisionSequence++}`, ...entry });
+    if (state.decisions.length > this.decisionLogMaxEntries) {
+      state.decisions.splice(0, state.decisions.length - this.decisionLogMaxEntries);
+    }
+  }
+
+  private decisionLogExpired(state: ShopState, now: number): boolean {
+    const last = state.decisions[state.decisions.length - 1];
+    return !!last && last.timestamp + this.decisionLogRetentionMs <= now;
+  }
+}
+
+function createShopState(): ShopState {
+  return { tokens: 0, leases: new Map(), queue: new Map(), backoffUntil: 0, decisions: [], budgets: new Map() };
+}
+
+function budgetUsage(key: string, { spent, maxCost, window, resetAt }: BudgetState, now: number): BudgetUsage {
+  return { key, window, maxCost, spent, remaining: Math.max(0, maxCost - spent), resetMs: resetAt - now };
+}
+
+/**
+ * Margins, lane capacity, adjusted cost and wait time of a check, as decided by an algorithm.
+ */
+interface Policy {
+  capacityPercentage: number;
+  marginMultiplier: number;
+  dynamicBaseMargin: number;
+  concurrencyMargin: number;
+  safetyMargin: number;
+  effectiveCapacity: number;
+  laneCapacity: number;
+  adjustedCost: number;
+  waitTimeMs: number;
+}
+
+/**
+ * Reads the consumed tokens of an algorithm, projected to now.
+ */
+function loadTokens(state: ShopState, algorithm: RateLimitAlgorithm, tokensPerSecond: number, now: number): number {
+  // GCRA: the consumed tokens are how far the theoretical arrival time lies ahead of now
+  if (algorithm === 'gcra') return ((Math.max(state.tat ?? now, now) - now) * tokensPerSecond) / 1000;
+
+  // Calculate token regeneration
+  const elapsedSeconds = (now - (state.lastUpdate ?? now)) / 1000;
+  return Math.max(0, state.tokens - elapsedSeconds * tokensPerSecond);
+}
+
+function saveTokens(
+  state: ShopState,
+  algorithm: RateLimitAlgorithm,
+  level: number,
+  tokensPerSecond: number,
+  now: number
+): void {
+  if (algorithm === 'gcra') {
+    state.tat = now + (level * 1000) / tokensPerSecond;
+  } else {
+    state.tokens = level;
+    state.lastUpdate = now;
+  }
+}
+
+function adaptivePolicy(
+  request: LimitRequest,
+  currentTokens: number,
+  bucketCapacity: number,
+  tokensPerSecond: number,
+  effectiveConcurrency: number
+): Policy {
+  const { cost, maxConcurrency, baseMargin, concurrencyMultiplier, concurrencyFactor, baseFactor } = request;
+
+  // Calculate remaining capacity
+  const remainingCapacity = bucketCapacity - currentTokens;
+  const capacityPercentage = (remainingCapacity / bucketCapacity) * 100;
+
+  // Dynamic safety margins based on capacity
+  let dynamicBaseMargin = baseMargin;
+  let dynamicConcurrencyMultiplier = concurrencyMultiplier;
+  let marginMultiplier = 1;
+
+  // Increase margins when capacity is low (below 30%)
+  if (capacityPercentage < 30) {
+    marginMultiplier = 1 + (30 - capacityPercentage) / 30;
+    dynamicBaseMargin = baseMargin * marginMultiplier;
+    dynamicConcurrencyMultiplier = concurrencyMultiplier * marginMultiplier;
+
+    // Extra safety when very low (below 10%)
+    if (capacityPercentage < 10) {
+      marginMultiplier = marginMultiplier * 1.5;
+      dynamicBaseMargin = dynamicBaseMargin * 1.5;
+      dynamicConcurrencyMultiplier = dynamicConcurrencyMultiplier * 1.5;
+    }
+  }
+
+  // Calculate final safety margins
+  const concurrencyMargin = Math.min(maxConcurrency, effectiveConcurrency) * dynamicConcurrencyMultiplier;
+  const safetyMargin = dynamicBaseMargin + concurrencyMargin;
+  const effectiveCapacity = bucketCapacity - safetyMargin;
+
+  // Lower priority lanes may only fill their share, keeping the rest for higher lanes
+  const laneCapacity = effectiveCapacity * request.laneShare;
+
+  // Calculate adjusted cost based on capacity and concurrency
+  const capacityFactor = 1 + Math.max(0, (30 - capacityPercentage) / 30);
+  const concurrencyAdjustment = 1 + concurrencyFactor * (effectiveConcurrency / maxConcurrency);
+  const adjustedCost = cost * capacityFactor * concurrencyAdjustment;
+
+  // Calculate wait time in case the request is throttled
+  const tokensNeeded = adjustedCost + currentTokens - laneCapacity;
+  const waitFactor = baseFactor * capacityFactor;
+  // Callers held back only by their queue position have no tokens to wait for
+  const waitTimeMs = Math.max(0, Math.ceil((tokensNeeded / tokensPerSecond) * 1000 * waitFactor));
+
+  return {
+    capacityPercentage,
+    marginMultiplier,
+    dynamicBaseMargin,
+    concurrencyMargin,
+    safetyMargin,
+    effectiveCapacity,
+    laneCapacity,
+    adjustedCost,
+    waitTimeMs,
+  };
+}
+
+/**
+ * The plain token bucket and GCRA: no margins and no cost adjustment. With its theoretical arrival
+ * time projected to tokens, GCRA admits and waits exactly like the token bucket.
+ */
+function plainPolicy(
+  request: LimitRequest,
+  currentTokens: number,
+  bucketCapacity: number,
+  tokensPerSecond: number
+): Policy {
+  const laneCapacity = bucketCapacity * request.laneShare;
+  const tokensNeeded = request.cost + currentTokens - laneCapacity;
+  return {
+    capacityPercentage: ((bucketCapacity - currentTokens) / bucketCapacity) * 100,
+    marginMultiplier: 1,
+    dynamicBaseMargin: 0,
+    concurrencyMargin: 0,
+    safetyMargin: 0,
+    effectiveCapacity: bucketCapacity,
+    laneCapacity,
+    adjustedCost: request.cost,
+    waitTimeMs: Math.max(0, Math.ceil((tokensNeeded / tokensPerSecond) * 1000)),
+  };
+}
@@ -0,0 +1,185 @@
+import type { RateLimitCheckEvent, ShopifyRateLimiter } from './rate-limiter';
+
+/**
+ * Options for constructing a MetricsCollector.
+ */
+export interface MetricsCollectorOptions {
+  /** Prefix of every metric name (default: 'shopify_rate_limiter'). */
+  prefix?: string;
+  /** Upper bounds of the wait time histogram buckets, in seconds. */
+  waitTimeBuckets?: number[];
+}
+
+/**
+ * Content type of the Prometheus text exposition format returned by `MetricsCollector.metrics`.
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const DEFAULT_WAIT_TIME_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+type Labels = Record<string, string>;
+
+interface Histogram {
+  labels: Labels;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Counter or histogram family, keyed by its serialized label set.
+ */
+interface Family<T> {
+  help: string;
+  series: Map<string, T>;
+}
+
+/**
+ * Collects counters and histograms from limiter events and renders them in the Prometheus
+ * text exposition format, e.g. to serve from a `/metrics` endpoint.
+ */
+export class MetricsCollector {
+  private readonly prefix: string;
+  private readonly waitTimeBuckets: number[];
+  private readonly counters = new Map<string, Family<{ labels: Labels; value: number }>>();
+  private readonly histograms = new Map<string, Family<Histogram>>();
+
+  constructor(options: MetricsCollectorOptions = {}) {
+    this.prefix = options.prefix ?? 'shopify_rate_limiter';
+    this.waitTimeBuckets = [...(options.waitTimeBuckets ?? DEFAULT_WAIT_TIME_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  /**
+   * Starts collecting the events of a limiter.
+   *
+   * @param limiter - The limiter to observe.
+   * @returns A function that stops collecting from the limiter.
+   */
+  observe(limiter: ShopifyRateLimiter): () => void {
+    const onAllowed = (event: RateLimitCheckEvent) => {
+      const labels = { shop: event.shop, priority: event.lane.priority };
+      this.increment('checks_total', 'Limit checks by result.', { ...labels, result: 'allowed' });
+      if (event.degraded) this.increment('degraded_checks_total', 'Checks decided without the store.', labels);
+      this.increment('cost_total', 'Requested cost of allowed checks.', labels, event.cost);
+      this.increment('adjusted_cost_total', 'Adjusted cost reserved by allowed checks.', labels, event.adjustedCost);
+    };
+    const onThrottled = (event: RateLimitCheckEvent) => {
+      const labels = { shop: event.shop, priority: event.lane.priority };
+      this.increment('checks_total', 'Limit checks by result.', { ...labels, result: 'throttled' });
+      if (event.degraded) this.increment('degraded_checks_total', 'Checks decided without the store.', labels);
+      this.observeHistogram('wait_time_seconds', 'Wait time suggested to throttled checks.', labels, event.waitTimeMs);
+    };
+    const onLowCapacity = (event: RateLimitCheckEvent) => {
+      this.increment('low_capacity_total', 'Checks that left the lane below the low capacity threshold.', {
+        shop: event.shop,
+        priority: event.lane.priority,
+      });
+    };
+    const onStateSynced = ({ shop }: { shop: string }) => {
+      this.increment('state_syncs_total', 'Shopify throttle status syncs.', { shop });
+    };
+    const onConcurrencyReleased = ({ shop }: { shop: string }) => {
+      this.increment('concurrency_releases_total', 'Released concurrency leases.', { shop });
+    };
+    const onStoreError = () => {
+      this.increment('store_errors_total', 'Store calls that failed and were handled by the error policy.', {});
+    };
+
+    limiter
+      .on('allowed', onAllowed)
+      .on('throttled', onThrottled)
+      .on('lowCapacity', onLowCapacity)
+      .on('stateSynced', onStateSynced)
+      .on('concurrencyReleased', onConcurrencyReleased)
+      .on('storeError', onStoreError);
+
+    return () => {
+      limiter
+        .off('allowed', onAllowed)
+        .off('throttled', onThrottled)
+        .off('lowCapacity', onLowCapacity)
+        .off('stateSynced', onStateSynced)
+        .off('concurrencyReleased', onConcurrencyReleased)
+        .off('storeError', onStoreError);
+    };
+  }
+
+  /**
+   * Renders every collected metric in the Prometheus text exposition format.
+   */
+  metrics(): string {
+    const lines: string[] = [];
+
+    for (const [name, family] of this.counters) {
+      lines.push(`# HELP ${this.prefix}_${name} ${family.help}`, `# TYPE ${this.prefix}_${name} counter`);
+      for (const { labels, value } of family.series.values()) {
+        lines.push(`${this.prefix}_${name}${formatLabels(labels)} ${value}`);
+      }
+    }
+
+    for (const [name, family] of this.histograms) {
+      const metric = `${this.prefix}_${name}`;
+      lines.push(`# HELP ${metric} ${family.help}`, `# TYPE ${metric} histogram`);
+      for (const { labels, buckets, sum, count } of family.series.values()) {
+        this.waitTimeBuckets.forEach((bound, i) => {
+          lines.push(`${metric}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`);
+        });
+        lines.push(`${metric}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+        lines.push(`${metric}_sum${formatLabels(labels)} ${sum}`, `${metric}_count${formatLabels(labels)} ${count}`);
+      }
+    }
+
+    return lines.length ? `${lines.join('\n')}\n` : '';
+  }
+
+  /**
+   * Drops every collected value.
+   */
+  reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+
+  private increment(name: string, help: string, labels: Labels, value = 1): void {
+    const series = getFamily(this.counters, name, help).series;
+    const key = formatLabels(labels);
+    const counter = series.get(key) ?? { labels, value: 0 };
+    counter.value += value;
+    series.set(key, counter);
+  }
+
+  private observeHistogram(name: string, help: string, labels: Labels, valueMs: number): void {
+    const series = getFamily(this.histograms, name, help).series;
+    const key = formatLabels(labels);
+    let histogram = series.get(key);
+    if (!histogram) {
+      histogram = { labels, buckets: this.waitTimeBuckets.map(() => 0), sum: 0, count: 0 };
+      series.set(key, histogram);
+    }
+
+    const seconds = valueMs / 1000;
+    this.waitTimeBuckets.forEach((bound, i) => {
+      if (seconds <= bound) histogram!.buckets[i]++;
+    });
+    histogram.sum += seconds;
+    histogram.count++;
+  }
+}
+
+function getFamily<T>(families: Map<string, Family<T>>, name: string, help: string): Family<T> {
+  let family = families.get(name);
+  if (!family) {
+    family = { help, series: new Map() };
+    families.set(name, family);
+  }
+  return family;
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
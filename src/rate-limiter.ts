@@ -1,74 +1,160 @@
-import { Redis } from 'ioredis';
-
-declare module 'ioredis' {
-  interface RedisCommander {
-    /**
-     * Executes the Shopify rate-limit check.
-     *
-     * @param tokenKey - Key tracking the tokens consumed.
-     * @param timestampKey - Key tracking the last update timestamp.
-     * @param shopifyStateKey - Key containing Shopify throttle state.
-     * @param concurrencyKey - Key tracking the current concurrency.
-     * @param cost - The token cost for the current operation.
-     * @param tokensPerSecond - The token restoration rate.
-     * @param bucketCapacity - The maximum capacity of the bucket.
-     * @param maxConcurrency - The maximum allowed concurrency.
-     * @param baseMargin - The base safety margin.
-     * @param concurrencyMultiplier - Multiplier for extra safety margin per concurrent request.
-     * @param concurrencyFactor - Factor used to adjust token cost under high concurrency.
-     * @param baseFactor - Base factor used in wait time calculation.
-     * @returns An array with [allowed, waitTimeMs, remainingTokens].
-     */
-    shopifylimit(
-      tokenKey: string,
-      timestampKey: string,
-      shopifyStateKey: string,
-      concurrencyKey: string,
-      cost: number,
-      tokensPerSecond: number,
-      bucketCapacity: number,
-      maxConcurrency: number,
-      baseMargin: number,
-      concurrencyMultiplier: number,
-      concurrencyFactor: number,
-      baseFactor: number,
-      debug?: boolean
-    ): Promise<[number, number, number]>;
-  }
-
-  interface Redis {
-    defineCommand(
-      name: string,
-      options: {
-        numberOfKeys: number;
-        lua: string;
-      }
-    ): void;
-  }
-}
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import type { DocumentNode } from 'graphql';
+import { Cluster, Redis } from 'ioredis';
+import { ApiProfile, ApiProfileName, apiProfileConfig, getApiProfile, ShopifyPlan } from './api-profiles';
+import { QueryCostEstimator } from './cost-estimator';
+import { RateLimitTimeoutError } from './errors';
+import { RedisStore } from './redis-store';
+import { CircuitBreakerOptions, ResilientStore, StoreErrorPolicy } from './resilient-store';
+import {
+  parseShopifyResponse,
+  parseShopifyRestResponse,
+  ShopifyGraphQLResponse,
+  ShopifyResponseObservation,
+  ShopifyRestObservation,
+  ShopifyRestResponse,
+} from './shopify-response';
+import { sleep } from './sleep';
+import {
+  BucketSnapshot,
+  BudgetUsage,
+  Clock,
+  DecisionLogEntry,
+  DecisionLogQuery,
+  isRateLimitStore,
+  LimitDecision,
+  LimitRequest,
+  RateLimitStore,
+  StoredConfig,
+} from './store';
 
 /**
  * Represents the Shopify throttle state.
  */
-interface ShopifyThrottle {
+export interface ShopifyThrottle {
   maximumAvailable: number;
   currentlyAvailable: number;
   restoreRate: number;
 }
 
+/**
+ * Handle for tokens reserved by an approved check, used to reconcile the actual cost.
+ */
+export interface RateLimitReservation {
+  leaseId: string;
+  cost: number;
+  adjustedCost: number;
+  tokensPerSecond: number;
+  /** The algorithm the tokens were reserved with; adaptive when absent. */
+  algorithm?: RateLimitAlgorithm;
+  /** The budget charged with `cost`, reconciled by `commit` too. */
+  budgetKey?: string;
+}
+
+/**
+ * Limiting algorithms. `adaptive` adds safety margins that grow with concurrency and slows down as
+ * the bucket fills, `token-bucket` is a plain token bucket without margins, and `gcra` is the
+ * generic cell rate algorithm, which spaces requests evenly once the burst tolerance is used up.
+ */
+export type RateLimitAlgorithm = 'adaptive' | 'token-bucket' | 'gcra';
+
+/**
+ * Priority lanes; lower lanes may only fill a share of the bucket and are throttled earlier.
+ */
+export type RateLimitPriority = 'critical' | 'normal' | 'background';
+
+/**
+ * The priority lane a check was decided in.
+ */
+export interface RateLimitLane {
+  priority: RateLimitPriority;
+  share: number;
+  capacity: number;
+}
+
 /**
  * Response returned from the rate limiter check.
  */
-interface RateLimitResponse {
+export interface RateLimitResponse {
+  allowed: boolean;
+  waitTimeMs: number;
+  remaining: number;
+  lane: RateLimitLane;
+  reservation?: RateLimitReservation;
+  /** Zero-based position in the fair queue, for throttled checks made by a queued `schedule`. */
+  queuePosition?: number;
+  /** Version of the shared configuration the check was made with, when no config was passed. */
+  configVersion?: number;
+  /** Decided without the store, under the `onStoreError` policy. */
+  degraded?: boolean;
+  /** Spending of the configured budget, after this check's charge if it was allowed. */
+  budget?: BudgetUsage;
+}
+
+/**
+ * A single check of a `checkLimitMany` batch.
+ */
+export interface RateLimitCheck {
+  shop: string;
+  cost: number;
+  /** Falls back to the shared configuration of the shop when omitted. */
+  config?: RateLimitConfig;
+}
+
+/**
+ * Response returned for an all-or-nothing group of operations.
+ */
+export interface RateLimitGroupResponse {
   allowed: boolean;
   waitTimeMs: number;
   remaining: number;
+  lane: RateLimitLane;
+  /** One reservation per operation, in order, when the group was admitted. */
+  reservations?: RateLimitReservation[];
+  /** Version of the shared configuration the group was checked with, when no config was passed. */
+  configVersion?: number;
+  /** Decided without the store, under the `onStoreError` policy. */
+  degraded?: boolean;
+  /** Spending of the configured budget, after the group's charge if it was admitted. */
+  budget?: BudgetUsage;
+}
+
+/**
+ * Outcome a check would have, as reported by `wouldAllow`.
+ */
+export interface RateLimitPreview {
+  allowed: boolean;
+  waitTimeMs: number;
+  remaining: number;
+  adjustedCost: number;
+  lane: RateLimitLane;
+  /** Version of the shared configuration the check was evaluated with, when no config was passed. */
+  configVersion?: number;
+  /** Evaluated against the local bucket, under the `local` store error policy. */
+  degraded?: boolean;
+  /** Spending of the configured budget, which the check would not change. */
+  budget?: BudgetUsage;
+}
+
+/**
+ * Current state of a shop's bucket, as reported by `inspect`.
+ */
+export interface RateLimitInspection extends BucketSnapshot {
+  /** Tokens left before the bucket is full, ignoring safety margins. */
+  available: number;
+  /** The lane of the configured priority and the capacity it is held to. */
+  lane: RateLimitLane;
+  /** Version of the shared configuration the state was projected with, when no config was passed. */
+  configVersion?: number;
+  /** Read from the local bucket, under the `local` store error policy. */
+  degraded?: boolean;
 }
 
 /**
  * Configuration options for the rate limiter.
  */
-interface RateLimitConfig {
+export interface RateLimitConfig {
   bucketCapacity: number;
   tokensPerSecond: number;
   maxConcurrency?: number;
@@ -76,292 +162,753 @@ interface RateLimitConfig {
   concurrencyMultiplier?: number;
   concurrencyFactor?: number;
   baseFactor?: number;
+  leaseTimeoutMs?: number;
+  priority?: RateLimitPriority;
+  laneShares?: Partial<Record<RateLimitPriority, number>>;
+  algorithm?: RateLimitAlgorithm;
+  /** Caps the cost spent under a key over a long window, on top of the bucket. */
+  budget?: RateLimitBudget;
   debug?: boolean;
 }
 
 /**
- * ShopifyRateLimiter uses a Lua-scripted token-bucket approach with dynamic safety margins and concurrency tracking.
+ * A cap on the requested cost checks may spend over a window of hours or days, e.g. per
+ * background job type, so a runaway job cannot use up a shop's capacity without ever being
+ * throttled by the bucket. Checks of a shop with the same key share the budget.
+ */
+export interface RateLimitBudget {
+  /** Names the budget, e.g. 'inventory-sync'. */
+  key: string;
+  /** Length of the window in milliseconds. It starts with the first charge; the budget starts over when it ends. */
+  window: number;
+  /** Cost the key may spend per window. Checks of a larger cost are rejected. */
+  maxCost: number;
+}
+
+/**
+ * A configuration to check with, and the version of the shared configuration it was read from.
+ */
+interface ResolvedConfig {
+  config: RateLimitConfig;
+  version?: number;
+}
+
+const DEFAULT_LANE_SHARES: Record<RateLimitPriority, number> = {
+  critical: 1,
+  normal: 1,
+  background: 0.5,
+};
+
+const ALGORITHMS: RateLimitAlgorithm[] = ['adaptive', 'token-bucket', 'gcra'];
+
+/**
+ * Options controlling how `schedule` waits for admission.
+ */
+export interface ScheduleOptions {
+  /** Aborts waiting; the signal's reason is thrown. */
+  signal?: AbortSignal;
+  /** Overall time budget for admission, in milliseconds. */
+  timeoutMs?: number;
+  /** Maximum number of throttled retries before giving up (default: 10). */
+  maxRetries?: number;
+  /** Random extra wait as a fraction of `waitTimeMs`, to spread out retries (default: 0.2). */
+  jitter?: number;
+  /** Admit waiting callers of the shop first-come-first-served across processes (default: false). */
+  queue?: boolean;
+  /** How long a queued caller keeps its place without re-checking, in milliseconds (default: 10000). */
+  ticketTimeoutMs?: number;
+}
+
+/**
+ * Options for constructing a ShopifyRateLimiter.
+ */
+export interface ShopifyRateLimiterOptions {
+  /** Estimator used by `checkQuery`; defaults to one with Shopify's standard costs. */
+  costEstimator?: QueryCostEstimator;
+  /** Fraction of the lane capacity below which `lowCapacity` is emitted (default: 0.3). */
+  lowCapacityThreshold?: number;
+  /** What checks do when the store fails (default: 'throw'). */
+  onStoreError?: StoreErrorPolicy;
+  /** Circuit breaker in front of the store, used with an `onStoreError` policy other than 'throw'. */
+  circuitBreaker?: CircuitBreakerOptions;
+  /**
+   * Clock that timestamps observed Shopify state and times `schedule`, passed on to the RedisStore
+   * created for a Redis client and the store error policy. Give a custom store the same clock
+   * (default: `Date.now`).
+   */
+  clock?: Clock;
+  /**
+   * The Shopify API the limiter guards. Its buckets get their own keys in the RedisStore created for
+   * a Redis client, and shops without a shared configuration get the profile's limits for `plan`.
+   */
+  profile?: ApiProfileName;
+  /** Plan whose limits the profile applies to shops without a shared configuration (default: 'standard'). */
+  plan?: ShopifyPlan;
+}
+
+/**
+ * Payload of the events emitted for a limit check.
+ */
+export interface RateLimitCheckEvent {
+  shop: string;
+  cost: number;
+  adjustedCost: number;
+  waitTimeMs: number;
+  remaining: number;
+  lane: RateLimitLane;
+  queuePosition?: number;
+  degraded?: boolean;
+}
+
+/**
+ * Events emitted by ShopifyRateLimiter, keyed by name.
+ */
+export interface ShopifyRateLimiterEvents {
+  /** A check was approved and its tokens reserved. */
+  allowed: RateLimitCheckEvent;
+  /** A check was throttled. */
+  throttled: RateLimitCheckEvent;
+  /** A check left less than `lowCapacityThreshold` of the lane capacity. */
+  lowCapacity: RateLimitCheckEvent;
+  /** Shopify's throttle status was synced to the store. */
+  stateSynced: { shop: string; throttleStatus: ShopifyThrottle; observedAt: number };
+  /** A concurrency lease was released. */
+  concurrencyReleased: { shop: string; leaseId: string };
+  /** A store call failed and was handled by the `onStoreError` policy. */
+  storeError: { error: unknown };
+}
+
+/**
+ * ShopifyRateLimiter uses a token-bucket approach with dynamic safety margins and concurrency tracking.
+ * State lives in a RateLimitStore: Redis (via Lua scripts) for distributed use, or memory for a single process.
  */
 export class ShopifyRateLimiter {
-  private readonly redis: Redis;
-  private readonly syncScript: string;
-
-  constructor(redis: Redis) {
-    this.redis = redis;
-    this.syncScript = `--[[
-  Shopify Rate Limiter Lua Script
-
-  Keys:
-    KEYS[1] - tokenKey: Tracks consumed tokens
-    KEYS[2] - timestampKey: Last update timestamp
-    KEYS[3] - shopifyStateKey: Shopify throttle state
-    KEYS[4] - concurrencyKey: Concurrent requests counter
-
-  Arguments:
-    ARGV[1] - cost: Token cost for operation
-    ARGV[2] - tokensPerSecond: Token restore rate
-    ARGV[3] - bucketCapacity: Maximum tokens
-    ARGV[4] - maxConcurrency: Max concurrent requests
-    ARGV[5] - baseMargin: Base safety margin
-    ARGV[6] - concurrencyMultiplier: Extra margin per concurrent request
-    ARGV[7] - concurrencyFactor: High concurrency cost adjustment
-    ARGV[8] - baseFactor: Wait time adjustment
-    ARGV[9] - debug: Enable debug logging (1 for true, 0 for false)
-
-  Returns: [allowed, waitTimeMs, remaining]
-    allowed: 1 if allowed, 0 if throttled
-    waitTimeMs: Suggested wait time if throttled
-    remaining: Remaining token capacity
---]]
-
--- Input validation
-local cost = tonumber(ARGV[1])
-if not cost then error("Invalid cost") end
-
-local tokensPerSecond = tonumber(ARGV[2])
-if not tokensPerSecond then error("Invalid tokensPerSecond") end
-
-local bucketCapacity = tonumber(ARGV[3])
-if not bucketCapacity then error("Invalid bucketCapacity") end
-
-local maxConcurrency = tonumber(ARGV[4])
-if not maxConcurrency then error("Invalid maxConcurrency") end
-
-local baseMargin = tonumber(ARGV[5])
-if not baseMargin then error("Invalid baseMargin") end
-
-local concurrencyMultiplier = tonumber(ARGV[6])
-if not concurrencyMultiplier then error("Invalid concurrencyMultiplier") end
-
-local concurrencyFactor = tonumber(ARGV[7])
-if not concurrencyFactor then error("Invalid concurrencyFactor") end
-
-local baseFactor = tonumber(ARGV[8])
-if not baseFactor then error("Invalid baseFactor") end
-
-local debug = tonumber(ARGV[9]) == 1
-
--- Helper function for debug logging
-local function debugLog(message)
-  if debug then
-    redis.call('lpush', 'shopify:debug:log', message)
-    redis.call('ltrim', 'shopify:debug:log', 0, 999) -- Keep last 1000 entries
-  end
-end
-
--- Get current server time in milliseconds
-local timeArr = redis.call('TIME')
-local now = tonumber(timeArr[1]) * 1000 + math.floor(tonumber(timeArr[2]) / 1000)
-
--- Get current token count and last update time
-local currentTokens = tonumber(redis.call('get', KEYS[1]) or 0)
-local lastUpdate = tonumber(redis.call('get', KEYS[2]) or now)
-
--- Calculate token regeneration
-local elapsedSeconds = (now - lastUpdate) / 1000
-local drained = elapsedSeconds * tokensPerSecond
-currentTokens = math.max(0, currentTokens - drained)
-
--- Check for Shopify state and update if available
-local shopifyState = redis.call('get', KEYS[3])
-if shopifyState then
-  local success, state = pcall(cjson.decode, shopifyState)
-  if success and state then
-    if type(state.currentlyAvailable) == 'number' and 
-       type(state.restoreRate) == 'number' and 
-       type(state.maximumAvailable) == 'number' then
-      -- Sync with Shopify's current state
-      currentTokens = bucketCapacity - state.currentlyAvailable
-      tokensPerSecond = state.restoreRate
-      bucketCapacity = state.maximumAvailable
-      
-      debugLog(string.format(
-        'Shopify state sync - Available: %d, Rate: %d, Max: %d',
-        state.currentlyAvailable,
-        state.restoreRate,
-        state.maximumAvailable
-      ))
-    end
-  end
-end
-
--- Get and validate concurrency
-local currentConcurrency = tonumber(redis.call('get', KEYS[4]) or 0)
-if currentConcurrency < 0 then
-  currentConcurrency = 0
-  redis.call('set', KEYS[4], 0)
-end
-local effectiveConcurrency = currentConcurrency + 1
-
--- Calculate remaining capacity
-local remainingCapacity = bucketCapacity - currentTokens
-local capacityPercentage = (remainingCapacity / bucketCapacity) * 100
-
--- Dynamic safety margins based on capacity
-local dynamicBaseMargin = baseMargin
-local dynamicConcurrencyMultiplier = concurrencyMultiplier
-
--- Increase margins when capacity is low (below 30%)
-if capacityPercentage < 30 then
-  local marginMultiplier = 1 + ((30 - capacityPercentage) / 30)
-  dynamicBaseMargin = baseMargin * marginMultiplier
-  dynamicConcurrencyMultiplier = concurrencyMultiplier * marginMultiplier
-  
-  -- Extra safety when very low (below 10%)
-  if capacityPercentage < 10 then
-    dynamicBaseMargin = dynamicBaseMargin * 1.5
-    dynamicConcurrencyMultiplier = dynamicConcurrencyMultiplier * 1.5
-  end
-  
-  debugLog(string.format(
-    'Low capacity alert - %.2f%% remaining, margins increased by %.2fx',
-    capacityPercentage,
-    marginMultiplier
-  ))
-end
-
--- Calculate final safety margins
-local concurrencyMargin = math.min(maxConcurrency, effectiveConcurrency) * dynamicConcurrencyMultiplier
-local safetyMargin = dynamicBaseMargin + concurrencyMargin
-local effectiveCapacity = bucketCapacity - safetyMargin
-
--- Calculate adjusted cost based on capacity and concurrency
-local capacityFactor = 1 + math.max(0, (30 - capacityPercentage) / 30)
-local concurrencyFactor = 1 + (effectiveConcurrency / maxConcurrency)
-local adjustedCost = cost * capacityFactor * concurrencyFactor
-
--- Check if we can proceed
-if currentTokens + adjustedCost <= effectiveCapacity then
-  debugLog(string.format(
-    'Request approved - Capacity: %.2f%%, Tokens: %d, Cost: %.2f, Margin: %.2f',
-    capacityPercentage,
-    currentTokens,
-    adjustedCost,
-    safetyMargin
-  ))
-  
-  -- Update tokens and concurrency
-  redis.call('set', KEYS[1], currentTokens + adjustedCost)
-  redis.call('set', KEYS[2], now)
-  redis.call('incr', KEYS[4])
-  redis.call('expire', KEYS[4], 10)
-  
-  local remaining = math.max(0, effectiveCapacity - (currentTokens + adjustedCost))
-  return {1, 0, remaining}
-end
-
--- Calculate wait time for throttled requests
-local tokensNeeded = adjustedCost + currentTokens - effectiveCapacity
-local waitFactor = baseFactor * capacityFactor
-local waitTimeMs = math.ceil((tokensNeeded / tokensPerSecond) * 1000 * waitFactor)
-
-debugLog(string.format(
-  'Request throttled - Capacity: %.2f%%, Tokens: %d, Needed: %.2f, Wait: %d',
-  capacityPercentage,
-  currentTokens,
-  tokensNeeded,
-  waitTimeMs
-))
-
-local remaining = math.max(0, effectiveCapacity - currentTokens)
-return {0, waitTimeMs, remaining}`;
-
-    // Register the command with Redis. We have 4 keys.
-    this.redis.defineCommand('shopifylimit', {
-      numberOfKeys: 4,
-      lua: this.syncScript,
-    });
+  private readonly store: RateLimitStore;
+  private readonly costEstimator: QueryCostEstimator;
+  private readonly lowCapacityThreshold: number;
+  private readonly events = new EventEmitter();
+  /** Source of the current time, from the `clock` option. */
+  readonly clock: Clock;
+  private readonly profile?: ApiProfile;
+  private readonly plan: ShopifyPlan;
+
+  /**
+   * @param store - A Redis or Redis Cluster client, used through a RedisStore, or any RateLimitStore.
+   * @param options - Limiter options.
+   */
+  constructor(store: Redis | Cluster | RateLimitStore, options: ShopifyRateLimiterOptions = {}) {
+    this.clock = options.clock ?? Date.now;
+    this.profile = options.profile !== undefined ? getApiProfile(options.profile) : undefined;
+    this.plan = options.plan ?? 'standard';
+    if (this.profile) apiProfileConfig(this.profile.name, this.plan);
+    const baseStore = isRateLimitStore(store)
+      ? store
+      : new RedisStore(store, { clock: options.clock, namespace: this.profile?.namespace });
+    const { onStoreError = 'throw', circuitBreaker } = options;
+    this.store =
+      onStoreError === 'throw'
+        ? baseStore
+        : new ResilientStore(baseStore, {
+            onStoreError,
+            circuitBreaker,
+            onError: error => this.emit('storeError', { error }),
+            clock: this.clock,
+          });
+    this.costEstimator = options.costEstimator ?? new QueryCostEstimator();
+    this.lowCapacityThreshold = options.lowCapacityThreshold ?? 0.3;
+  }
+
+  /**
+   * Subscribes to a limiter event. Listeners run synchronously while the limiter call completes.
+   *
+   * @param event - The event name.
+   * @param listener - Called with the event payload.
+   */
+  on<E extends keyof ShopifyRateLimiterEvents>(
+    event: E,
+    listener: (payload: ShopifyRateLimiterEvents[E]) => void
+  ): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Removes a listener added with `on`.
+   *
+   * @param event - The event name.
+   * @param listener - The listener to remove.
+   */
+  off<E extends keyof ShopifyRateLimiterEvents>(
+    event: E,
+    listener: (payload: ShopifyRateLimiterEvents[E]) => void
+  ): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  private emit<E extends keyof ShopifyRateLimiterEvents>(event: E, payload: ShopifyRateLimiterEvents[E]): void {
+    this.events.emit(event, payload);
   }
 
   private validateConfig(config: RateLimitConfig): void {
-    if (config.bucketCapacity <= 0) throw new Error('Invalid bucket capacity');
-    if (config.tokensPerSecond <= 0) throw new Error('Invalid tokens per second');
-    if (config.maxConcurrency && config.maxConcurrency <= 0) throw new Error('Invalid max concurrency');
+    if (!(config.bucketCapacity > 0)) throw new Error('Invalid bucket capacity');
+    if (!(config.tokensPerSecond > 0)) throw new Error('Invalid tokens per second');
+    if (config.maxConcurrency !== undefined && !(config.maxConcurrency > 0)) throw new Error('Invalid max concurrency');
+    if (config.leaseTimeoutMs !== undefined && !(config.leaseTimeoutMs > 0)) throw new Error('Invalid lease timeout');
+    // Margins and factors may be 0 to switch them off, but not negative
+    for (const name of ['baseMargin', 'concurrencyMultiplier', 'concurrencyFactor', 'baseFactor'] as const) {
+      if (config[name] !== undefined && !(config[name]! >= 0)) throw new Error(`Invalid ${name}`);
+    }
+    if (config.priority && !Object.prototype.hasOwnProperty.call(DEFAULT_LANE_SHARES, config.priority)) {
+      throw new Error('Invalid priority');
+    }
+    if (config.algorithm && !ALGORITHMS.includes(config.algorithm)) throw new Error('Invalid algorithm');
+    for (const share of Object.values(config.laneShares ?? {})) {
+      if (!(share > 0 && share <= 1)) throw new Error('Invalid lane share');
+    }
+    if (config.budget) {
+      const { key, window, maxCost } = config.budget;
+      if (typeof key !== 'string' || key === '') throw new Error('Invalid budget key');
+      if (!(window > 0 && Number.isFinite(window))) throw new Error('Invalid budget window');
+      if (!(maxCost > 0 && Number.isFinite(maxCost))) throw new Error('Invalid budget max cost');
+    }
+  }
+
+  /**
+   * Uses the passed config, or reads the shared configuration of the shop, falling back to the
+   * shared default and then to the limits of the API profile.
+   */
+  private async resolveConfig(shop: string, config?: RateLimitConfig): Promise<ResolvedConfig> {
+    if (config) {
+      this.validateConfig(config);
+      return { config };
+    }
+
+    const stored = (await this.store.getConfig(shop)) ?? (await this.store.getConfig(null));
+    if (!stored) {
+      if (this.profile) return { config: apiProfileConfig(this.profile.name, this.plan) };
+      throw new Error(`No rate limit config for ${shop}`);
+    }
+    this.validateConfig(stored.config);
+    return stored;
+  }
+
+  /**
+   * Stores the configuration shared by every process for a shop, used by checks that pass no config.
+   *
+   * @param shop - The shop identifier.
+   * @param config - Rate limiting configuration parameters.
+   * @returns The version of the stored configuration, reported as `configVersion` by checks using it.
+   */
+  async setShopConfig(shop: string, config: RateLimitConfig): Promise<number> {
+    this.validateConfig(config);
+    return this.store.setConfig(shop, config);
+  }
+
+  /**
+   * Reads the shared configuration stored for a shop, without falling back to the default.
+   *
+   * @param shop - The shop identifier.
+   * @returns The configuration and its version, or null if none is stored for the shop.
+   */
+  async getShopConfig(shop: string): Promise<StoredConfig | null> {
+    return this.store.getConfig(shop);
+  }
+
+  /**
+   * Shares the API profile's limits for a plan as the shop's configuration, e.g. after the shop
+   * upgraded to Plus.
+   *
+   * @param shop - The shop identifier.
+   * @param plan - The shop's plan.
+   * @returns The version of the stored configuration.
+   */
+  async setShopPlan(shop: string, plan: ShopifyPlan): Promise<number> {
+    if (!this.profile) throw new Error('No API profile');
+    return this.setShopConfig(shop, apiProfileConfig(this.profile.name, plan));
+  }
+
+  /**
+   * Stores the configuration used by checks that pass no config for shops without their own.
+   *
+   * @param config - Rate limiting configuration parameters.
+   * @returns The version of the stored default.
+   */
+  async setDefaultConfig(config: RateLimitConfig): Promise<number> {
+    this.validateConfig(config);
+    return this.store.setConfig(null, config);
+  }
+
+  /**
+   * Reads the shared default configuration.
+   *
+   * @returns The configuration and its version, or null if no default is stored.
+   */
+  async getDefaultConfig(): Promise<StoredConfig | null> {
+    return this.store.getConfig(null);
   }
 
   /**
    * Checks the rate limit for a given shop and operation cost.
-   * If allowed, the method reserves tokens and increments concurrency.
+   * If allowed, the method reserves tokens and acquires a concurrency lease.
    *
    * @param shop - The shop identifier.
    * @param cost - The token cost of the operation.
-   * @param config - Rate limiting configuration parameters.
+   * @param config - Rate limiting configuration parameters; the shop's shared configuration when omitted.
    * @returns A promise resolving to a RateLimitResponse indicating whether the operation is allowed,
    *          the wait time (in ms) if not allowed, and the remaining effective capacity.
+   *          Approved responses carry a reservation to pass to `commit` once the actual cost is known,
+   *          and whose `leaseId` must be passed to `releaseConcurrency` when the operation finishes.
    */
-  async checkLimit(shop: string, cost: number, config: RateLimitConfig): Promise<RateLimitResponse> {
-    this.validateConfig(config);
-    const tokenKey = `shopify:${shop}:tokens`;
-    const timestampKey = `shopify:${shop}:timestamp`;
-    const shopifyStateKey = `shopify:${shop}:state`;
-    const concurrencyKey = `shopify:${shop}:concurrent`;
-
-    // Note: We no longer pass the current time; the script fetches Redis time.
-    const [allowed, waitTimeMs, remaining] = (await (this.redis as any).shopifylimit(
-      tokenKey,
-      timestampKey,
-      shopifyStateKey,
-      concurrencyKey,
-      cost,
-      config.tokensPerSecond,
-      config.bucketCapacity,
-      config.maxConcurrency || 5,
-      config.baseMargin || 70,
-      config.concurrencyMultiplier || 10,
-      config.concurrencyFactor || 0.2,
-      config.baseFactor || 1.1,
-      config.debug ? 1 : 0
-    )) as [number, number, number];
+  async checkLimit(shop: string, cost: number, config?: RateLimitConfig): Promise<RateLimitResponse> {
+    return this.check(shop, cost, await this.resolveConfig(shop, config));
+  }
+
+  private async check(
+    shop: string,
+    cost: number,
+    resolved: ResolvedConfig,
+    ticket?: { ticketId: string; ticketTimeoutMs: number }
+  ): Promise<RateLimitResponse> {
+    const leaseId = randomUUID();
+    const request = this.limitRequest(cost, resolved.config, leaseId);
+
+    const decision = await this.store.checkLimit(shop, { ...request, ...ticket });
+    return this.respond(shop, cost, resolved, leaseId, decision);
+  }
+
+  /**
+   * Checks the rate limit for many operations, possibly of different shops, in a single round trip
+   * where the store allows it. Each check is decided on its own, in order.
+   *
+   * @param checks - The shop, cost and configuration of each check.
+   * @returns One RateLimitResponse per check, in the same order.
+   */
+  async checkLimitMany(checks: RateLimitCheck[]): Promise<RateLimitResponse[]> {
+    const resolved = await Promise.all(checks.map(({ shop, config }) => this.resolveConfig(shop, config)));
+    const leaseIds = checks.map(() => randomUUID());
+
+    const decisions = await this.store.checkLimitMany(
+      checks.map(({ shop, cost }, i) => ({ shop, request: this.limitRequest(cost, resolved[i].config, leaseIds[i]) }))
+    );
+    return decisions.map((decision, i) => {
+      const { shop, cost } = checks[i];
+      return this.respond(shop, cost, resolved[i], leaseIds[i], decision);
+    });
+  }
+
+  /**
+   * Admits a group of operations against one shop all or nothing: either the combined cost is
+   * reserved and every operation gets its own reservation and lease, or nothing is reserved.
+   *
+   * @param shop - The shop identifier.
+   * @param costs - The token cost of each operation.
+   * @param config - Rate limiting configuration parameters; the shop's shared configuration when omitted.
+   * @returns The group decision, with one reservation per operation, in order, if admitted.
+   */
+  async checkLimitGroup(shop: string, costs: number[], config?: RateLimitConfig): Promise<RateLimitGroupResponse> {
+    if (costs.length === 0 || !costs.every(cost => Number.isFinite(cost) && cost >= 0)) {
+      throw new Error('Invalid group costs');
+    }
+    const resolved = await this.resolveConfig(shop, config);
+    const [leaseId, ...groupLeaseIds] = costs.map(() => randomUUID());
+    const totalCost = costs.reduce((sum, cost) => sum + cost, 0);
+
+    const decision = await this.store.checkLimit(shop, {
+      ...this.limitRequest(totalCost, resolved.config, leaseId),
+      groupLeaseIds,
+    });
+    const { reservation, ...response } = this.respond(shop, totalCost, resolved, leaseId, decision);
+    if (!reservation) return response;
 
+    // Every operation carries its share of the adjustment, so each can be committed on its own
     return {
-      allowed: allowed === 1,
+      ...response,
+      reservations: costs.map((cost, i) => ({
+        leaseId: i === 0 ? leaseId : groupLeaseIds[i - 1],
+        cost,
+        adjustedCost: totalCost > 0 ? (decision.adjustedCost * cost) / totalCost : 0,
+        tokensPerSecond: resolved.config.tokensPerSecond,
+        ...(reservation.algorithm && { algorithm: reservation.algorithm }),
+        ...(reservation.budgetKey !== undefined && { budgetKey: reservation.budgetKey }),
+      })),
+    };
+  }
+
+  private respond(
+    shop: string,
+    cost: number,
+    { config, version }: ResolvedConfig,
+    leaseId: string,
+    { allowed, waitTimeMs, remaining, adjustedCost, laneCapacity, queuePosition, degraded, budget }: LimitDecision
+  ): RateLimitResponse {
+    const lane = this.lane(config, laneCapacity);
+
+    const event = { shop, cost, adjustedCost, waitTimeMs, remaining, lane, queuePosition, degraded };
+    this.emit(allowed ? 'allowed' : 'throttled', event);
+    // Checks held back by a backoff report no lane capacity, so there is nothing to measure against
+    if (laneCapacity > 0 && remaining < laneCapacity * this.lowCapacityThreshold) {
+      this.emit('lowCapacity', event);
+    }
+
+    const response: RateLimitResponse = { allowed, waitTimeMs, remaining, lane };
+    if (allowed) {
+      response.reservation = { leaseId, cost, adjustedCost, tokensPerSecond: config.tokensPerSecond };
+      if (config.algorithm) response.reservation.algorithm = config.algorithm;
+      if (config.budget) response.reservation.budgetKey = config.budget.key;
+    } else if (queuePosition !== undefined) {
+      response.queuePosition = queuePosition;
+    }
+    if (version !== undefined) response.configVersion = version;
+    if (degraded) response.degraded = true;
+    if (budget) response.budget = budget;
+    return response;
+  }
+
+  /**
+   * Reports whether a check would be allowed right now, without reserving tokens, acquiring a
+   * lease or emitting events. Other callers may use the capacity before a following `checkLimit`.
+   *
+   * @param shop - The shop identifier.
+   * @param cost - The token cost of the operation.
+   * @param config - Rate limiting configuration parameters; the shop's shared configuration when omitted.
+   * @returns The decision, wait time, remaining capacity and adjusted cost a check would get.
+   */
+  async wouldAllow(shop: string, cost: number, config?: RateLimitConfig): Promise<RateLimitPreview> {
+    const resolved = await this.resolveConfig(shop, config);
+    const { allowed, waitTimeMs, remaining, adjustedCost, laneCapacity, degraded, budget } = await this.store.inspect(
+      shop,
+      this.limitRequest(cost, resolved.config, '')
+    );
+
+    const preview: RateLimitPreview = {
+      allowed,
       waitTimeMs,
       remaining,
+      adjustedCost,
+      lane: this.lane(resolved.config, laneCapacity),
     };
+    if (resolved.version !== undefined) preview.configVersion = resolved.version;
+    if (degraded) preview.degraded = true;
+    if (budget) preview.budget = budget;
+    return preview;
   }
 
   /**
-   * Safely releases a concurrency slot, preventing negative values
+   * Reads the current state of a shop's bucket without changing it.
+   *
+   * @param shop - The shop identifier.
+   * @param config - Rate limiting configuration parameters, used to project the state and margins;
+   *                 the shop's shared configuration when omitted.
+   * @returns The projected token level, in-flight concurrency, effective capacity after dynamic
+   *          margins, and the synced Shopify state with its age.
    */
-  async releaseConcurrency(shop: string): Promise<void> {
-    const concurrencyKey = `shopify:${shop}:concurrent`;
-
-    // Use Lua script to safely decrement and prevent negative values
-    const safeDecrScript = `
-    local current = tonumber(redis.call('get', KEYS[1]) or '0')
-    if current > 0 then
-      return redis.call('decr', KEYS[1])
-    else
-      redis.call('set', KEYS[1], 0)
-      return 0
-    end
-  `;
-
-    await this.redis.eval(
-      safeDecrScript,
-      1, // number of keys
-      concurrencyKey // the key
+  async inspect(shop: string, config?: RateLimitConfig): Promise<RateLimitInspection> {
+    const resolved = await this.resolveConfig(shop, config);
+    const { laneCapacity, snapshot, degraded } = await this.store.inspect(
+      shop,
+      this.limitRequest(0, resolved.config, '')
     );
+
+    const inspection: RateLimitInspection = {
+      ...snapshot,
+      available: Math.max(0, snapshot.bucketCapacity - snapshot.tokens),
+      lane: this.lane(resolved.config, laneCapacity),
+    };
+    if (resolved.version !== undefined) inspection.configVersion = resolved.version;
+    if (degraded) inspection.degraded = true;
+    return inspection;
+  }
+
+  private limitRequest(cost: number, config: RateLimitConfig, leaseId: string): LimitRequest {
+    // Such a check would wait for the window to end over and over, as no budget ever fits it
+    if (config.budget && cost > config.budget.maxCost) throw new Error('Cost exceeds budget max cost');
+    const priority = config.priority ?? 'normal';
+    return {
+      cost,
+      tokensPerSecond: config.tokensPerSecond,
+      bucketCapacity: config.bucketCapacity,
+      maxConcurrency: config.maxConcurrency ?? 5,
+      baseMargin: config.baseMargin ?? 70,
+      concurrencyMultiplier: config.concurrencyMultiplier ?? 10,
+      concurrencyFactor: config.concurrencyFactor ?? 1,
+      baseFactor: config.baseFactor ?? 1.1,
+      debug: !!config.debug,
+      leaseId,
+      leaseTimeoutMs: config.leaseTimeoutMs ?? 10000,
+      laneShare: config.laneShares?.[priority] ?? DEFAULT_LANE_SHARES[priority],
+      algorithm: config.algorithm ?? 'adaptive',
+      ...(config.budget && { budget: config.budget }),
+    };
+  }
+
+  private lane(config: RateLimitConfig, capacity: number): RateLimitLane {
+    const priority = config.priority ?? 'normal';
+    return { priority, share: config.laneShares?.[priority] ?? DEFAULT_LANE_SHARES[priority], capacity };
   }
 
   /**
-   * Synchronizes Shopify throttle state with Redis.
+   * Checks the rate limit for a GraphQL operation, estimating its requested cost from the document.
+   *
+   * @param shop - The shop identifier.
+   * @param document - The GraphQL document, as source text or a parsed DocumentNode.
+   * @param variables - The operation variables, used to resolve `first`/`last`.
+   * @param config - Rate limiting configuration parameters; the shop's shared configuration when omitted.
+   * @returns A promise resolving to the same RateLimitResponse as `checkLimit`.
+   */
+  async checkQuery(
+    shop: string,
+    document: string | DocumentNode,
+    variables: Record<string, unknown> | undefined,
+    config?: RateLimitConfig
+  ): Promise<RateLimitResponse> {
+    return this.checkLimit(shop, this.estimateCost(document, variables), config);
+  }
+
+  /**
+   * Estimates the requested cost of a GraphQL operation with the limiter's cost estimator.
+   *
+   * @param document - The GraphQL document, as source text or a parsed DocumentNode.
+   * @param variables - The operation variables, used to resolve `first`/`last`.
+   * @param operationName - The operation to estimate when the document holds several.
+   */
+  estimateCost(document: string | DocumentNode, variables?: Record<string, unknown>, operationName?: string): number {
+    return this.costEstimator.estimate(document, variables, operationName);
+  }
+
+  /**
+   * Reconciles a reservation with the cost Shopify actually charged.
+   * The difference between the reserved adjusted cost and the actual cost is refunded to,
+   * or taken from, the shop's bucket atomically. A budget the reservation was charged to is
+   * reconciled with the actual cost too.
+   *
+   * @param shop - The shop identifier.
+   * @param reservation - The reservation returned by an approved `checkLimit`.
+   * @param actualCost - The actual cost, e.g. `extensions.cost.actualQueryCost`.
+   * @returns The consumed token level after reconciliation.
+   */
+  async commit(shop: string, reservation: RateLimitReservation, actualCost: number): Promise<number> {
+    if (!Number.isFinite(actualCost) || actualCost < 0) throw new Error('Invalid actual cost');
+    return this.store.commit(
+      shop,
+      reservation.adjustedCost,
+      actualCost,
+      reservation.tokensPerSecond,
+      reservation.algorithm ?? 'adaptive',
+      reservation.budgetKey !== undefined ? { key: reservation.budgetKey, reservedCost: reservation.cost } : undefined
+    );
+  }
+
+  /**
+   * Waits until the operation is admitted, runs it, and always releases its concurrency lease.
+   * Throttled checks are retried after the suggested wait time plus jitter.
+   *
+   * With `queue`, waiting callers of the shop hold a ticket in a shared queue and are admitted in
+   * arrival order, so large operations are not starved by a stream of small ones. Callers behind
+   * the head of the queue wait to be woken when capacity frees up; only checks made at the head
+   * count towards `maxRetries`.
+   *
+   * @param shop - The shop identifier.
+   * @param cost - The token cost of the operation.
+   * @param config - Rate limiting configuration parameters; the shop's shared configuration, read once,
+   *                 when undefined.
+   * @param fn - The operation to run once admitted; receives the reservation for `commit`.
+   * @param options - Abort signal, deadline, retry cap and jitter.
+   * @returns The result of `fn`.
+   * @throws RateLimitTimeoutError when retries or the deadline are exhausted.
+   */
+  async schedule<T>(
+    shop: string,
+    cost: number,
+    config: RateLimitConfig | undefined,
+    fn: (reservation: RateLimitReservation) => Promise<T> | T,
+    options: ScheduleOptions = {}
+  ): Promise<T> {
+    const { signal, timeoutMs, maxRetries = 10, jitter = 0.2, queue = false, ticketTimeoutMs = 10000 } = options;
+    const deadline = timeoutMs !== undefined ? this.clock() + timeoutMs : Infinity;
+    if (queue && !(ticketTimeoutMs > 0)) throw new Error('Invalid ticket timeout');
+    const resolved = await this.resolveConfig(shop, config);
+    const ticket = queue ? { ticketId: randomUUID(), ticketTimeoutMs } : undefined;
+    let queued = !!ticket;
+
+    try {
+      for (let attempt = 1, retries = 0; ; attempt++) {
+        signal?.throwIfAborted();
+        const result = await this.check(shop, cost, resolved, ticket);
+
+        if (result.allowed) {
+          // An admitted check has already taken the ticket out of the queue
+          queued = false;
+          try {
+            return await fn(result.reservation!);
+          } finally {
+            await this.releaseConcurrency(shop, result.reservation!.leaseId);
+          }
+        }
+
+        if (ticket && result.queuePosition) {
+          // Behind other callers: wait to be woken, re-checking in time to keep the ticket alive
+          const remainingMs = deadline - this.clock();
+          if (remainingMs <= 0) throw new RateLimitTimeoutError(shop, attempt, result);
+          await this.store.waitForWake(shop, Math.min(ticketTimeoutMs / 2, remainingMs), signal);
+          continue;
+        }
+
+        const waitMs = Math.ceil(result.waitTimeMs * (1 + Math.random() * jitter));
+        if (++retries > maxRetries || this.clock() + waitMs > deadline) {
+          throw new RateLimitTimeoutError(shop, attempt, result);
+        }
+        if (ticket) {
+          await this.store.waitForWake(shop, Math.min(waitMs, ticketTimeoutMs / 2), signal);
+        } else {
+          await sleep(waitMs, signal);
+        }
+      }
+    } finally {
+      if (queued) await this.store.leaveQueue(shop, ticket!.ticketId);
+    }
+  }
+
+  /**
+   * Releases the concurrency lease acquired by an approved check.
+   * Only the given lease is removed, so releasing twice or after the lease expired is harmless.
+   *
+   * @param shop - The shop identifier.
+   * @param leaseId - The `leaseId` of the reservation returned by `checkLimit`.
+   */
+  async releaseConcurrency(shop: string, leaseId: string): Promise<void> {
+    await this.store.releaseConcurrency(shop, leaseId);
+    this.emit('concurrencyReleased', { shop, leaseId });
+  }
+
+  /**
+   * Synchronizes Shopify throttle state with the store. Checks project it forward at its restore
+   * rate from the time it was observed; an observation older than the recorded one is ignored.
    *
    * @param shop - The shop identifier.
    * @param throttleStatus - The current throttle status from Shopify.
+   * @param observedAt - When the response reporting it was received, in epoch milliseconds (default: now).
+   * @returns False if a newer observation was already recorded or this one is older than the state TTL.
    */
-  async syncShopifyState(shop: string, throttleStatus: ShopifyThrottle): Promise<void> {
-    const shopifyStateKey = `shopify:${shop}:state`;
-    await this.redis.set(shopifyStateKey, JSON.stringify(throttleStatus), 'EX', 10);
+  async syncShopifyState(shop: string, throttleStatus: ShopifyThrottle, observedAt = this.clock()): Promise<boolean> {
+    const recorded = await this.store.syncShopifyState(shop, throttleStatus, observedAt);
+    if (recorded) this.emit('stateSynced', { shop, throttleStatus, observedAt });
+    return recorded;
+  }
+
+  /**
+   * Ingests a Shopify GraphQL response: syncs the reported throttle status, reconciles the
+   * reservation with the actual query cost, and backs the shop off on a THROTTLED error so
+   * other processes stop sending requests right away.
+   *
+   * @param shop - The shop identifier.
+   * @param responseBody - The parsed JSON body of the GraphQL response.
+   * @param reservation - The reservation of the request, if it should be committed.
+   * @param observedAt - When the response was received, in epoch milliseconds (default: now).
+   * @returns The cost and throttle information found in the response.
+   */
+  async observeResponse(
+    shop: string,
+    responseBody: ShopifyGraphQLResponse,
+    reservation?: RateLimitReservation,
+    observedAt = this.clock()
+  ): Promise<ShopifyResponseObservation> {
+    const observation = parseShopifyResponse(responseBody);
+
+    if (observation.throttleStatus) {
+      await this.syncShopifyState(shop, observation.throttleStatus, observedAt);
+    }
+
+    if (observation.throttled) {
+      await this.store.backoff(shop, observation.backoffMs);
+    }
+
+    if (reservation) {
+      // Throttled requests are not charged by Shopify
+      const actualCost = observation.throttled ? 0 : observation.actualQueryCost;
+      if (actualCost !== undefined) {
+        await this.commit(shop, reservation, actualCost);
+      }
+    }
+
+    return observation;
+  }
+
+  /**
+   * Ingests a Shopify REST Admin API response: syncs the bucket level reported by the
+   * `X-Shopify-Shop-Api-Call-Limit` header, and on a 429 backs the shop off for the `Retry-After`
+   * time and refunds the reservation. Use it with a limiter of the `admin-rest` profile, whose
+   * costs count requests.
+   *
+   * @param shop - The shop identifier.
+   * @param response - The status and headers of the REST response.
+   * @param reservation - The reservation of the request, refunded if Shopify throttled it.
+   * @param observedAt - When the response was received, in epoch milliseconds (default: now).
+   * @returns The bucket level and throttle information found in the response.
+   */
+  async observeRestResponse(
+    shop: string,
+    response: ShopifyRestResponse,
+    reservation?: RateLimitReservation,
+    observedAt = this.clock()
+  ): Promise<ShopifyRestObservation> {
+    if (this.profile && this.profile.name !== 'admin-rest') {
+      throw new Error(`REST responses cannot be observed with the ${this.profile.name} profile`);
+    }
+    const observation = parseShopifyRestResponse(response);
+
+    if (observation.callLimit !== undefined) {
+      // The header carries no restore rate, so the shop's configured one is kept
+      const restoreRate = reservation?.tokensPerSecond ?? (await this.resolveConfig(shop)).config.tokensPerSecond;
+      await this.syncShopifyState(
+        shop,
+        {
+          maximumAvailable: observation.callLimit,
+          currentlyAvailable: Math.max(0, observation.callLimit - observation.callsMade!),
+          restoreRate,
+        },
+        observedAt
+      );
+    }
+
+    if (observation.throttled) {
+      await this.store.backoff(shop, observation.backoffMs);
+      if (reservation) await this.commit(shop, reservation, 0);
+    }
+
+    return observation;
+  }
+
+  /**
+   * Reads the decisions recorded for checks made with `debug` enabled, newest first.
+   *
+   * @param shop - The shop identifier.
+   * @param query - Earliest time and maximum number of entries.
+   * @returns The decision log entries, with the inputs, margins, adjusted cost and verdict of each check.
+   */
+  async getDecisionLog(shop: string, query: DecisionLogQuery = {}): Promise<DecisionLogEntry[]> {
+    return this.store.getDecisionLog(shop, query);
+  }
+
+  /**
+   * Reads how much of each budget the shop's checks have spent in the current window.
+   *
+   * @param shop - The shop identifier.
+   * @returns The budgets whose window has not ended, sorted by key.
+   */
+  async getBudgetUsage(shop: string): Promise<BudgetUsage[]> {
+    return this.store.getBudgetUsage(shop);
   }
 
   async cleanupShop(shop: string): Promise<void> {
-    const keys = [
-      `shopify:${shop}:tokens`,
-      `shopify:${shop}:timestamp`,
-      `shopify:${shop}:state`,
-      `shopify:${shop}:concurrent`,
-    ];
-    await this.redis.del(...keys);
+    await this.store.cleanupShop(shop);
+  }
+
+  /**
+   * Releases connections or timers owned by the store, such as the subscriber used by queued
+   * `schedule` calls. A Redis client passed to the constructor is left open.
+   */
+  async close(): Promise<void> {
+    await this.store.close?.();
   }
 }
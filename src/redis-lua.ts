@@ -0,0 +1,12 @@
+/**
+ * Lua that reads the current time in milliseconds into `now`: the injected clock passed in the
+ * given argument, or Redis server time.
+ */
+export function nowLua(argument: string): string {
+  return `-- Current time in milliseconds: the injected clock if passed, otherwise Redis server time
+local now = tonumber(${argument})
+if not now then
+  local timeArr = redis.call('TIME')
+  now = tonumber(timeArr[1]) * 1000 + math.floor(tonumber(timeArr[2]) / 1000)
+end`;
+}
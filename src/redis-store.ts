@@ -0,0 +1,1320 @@
+import { Cluster, Redis } from 'ioredis';
+import type { ClientContext, RedisCommander, Result } from 'ioredis';
+import type { RateLimitAlgorithm, RateLimitConfig, ShopifyThrottle } from './rate-limiter';
+import { nowLua } from './redis-lua';
+import { RedisWakeups } from './redis-wakeups';
+import type {
+  BucketSnapshot,
+  BudgetUsage,
+  Clock,
+  DecisionLogEntry,
+  DecisionLogOptions,
+  DecisionLogQuery,
+  LimitDecision,
+  LimitInspection,
+  LimitRequest,
+  RateLimitStore,
+  StoredConfig,
+} from './store';
+
+declare module 'ioredis' {
+  interface RedisCommander<Context extends ClientContext = { type: 'default' }> {
+    /**
+     * Executes the Shopify rate-limit check.
+     *
+     * @param tokenKey - Key tracking the tokens consumed.
+     * @param timestampKey - Key tracking the last update timestamp.
+     * @param shopifyStateKey - Key containing Shopify throttle state.
+     * @param concurrencyKey - Sorted set of concurrency leases scored by deadline.
+     * @param backoffKey - Key set while Shopify is throttling the shop.
+     * @param decisionLogKey - Stream receiving the shop's decision log entries.
+     * @param queueKey - Sorted set of fair queue tickets scored by join time.
+     * @param queueDeadlinesKey - Sorted set of fair queue tickets scored by deadline.
+     * @param budgetsKey - Hash of the shop's budgets, keyed by budget key.
+     * @param cost - The token cost for the current operation.
+     * @param tokensPerSecond - The token restoration rate.
+     * @param bucketCapacity - The maximum capacity of the bucket.
+     * @param maxConcurrency - The maximum allowed concurrency.
+     * @param baseMargin - The base safety margin.
+     * @param concurrencyMultiplier - Multiplier for extra safety margin per concurrent request.
+     * @param concurrencyFactor - Factor used to adjust token cost under high concurrency.
+     * @param baseFactor - Base factor used in wait time calculation.
+     * @param debug - Records the decision in the decision log.
+     * @param leaseId - Lease recorded in the concurrency set if the request is approved.
+     * @param leaseTimeoutMs - How long a lease is held before it is reaped.
+     * @param laneShare - Share of the effective capacity available to the request's priority lane.
+     * @param ticketId - Fair queue ticket of the caller, or an empty string outside queued mode.
+     * @param ticketTimeoutMs - How long a ticket stays queued without being refreshed.
+     * @param wakeChannel - Channel notified when a queued caller is admitted.
+     * @param decisionLogMaxEntries - Number of entries kept in the decision log.
+     * @param decisionLogRetentionMs - How long the decision log is kept after its last entry.
+     * @param dryRun - Evaluates the check without changing any state and returns a bucket snapshot.
+     * @param groupLeaseIds - Comma-separated leases acquired together with leaseId, or an empty string.
+     * @param nowMs - Current time in epoch milliseconds from an injected clock, or an empty string for Redis time.
+     * @param budgetKey - Budget charged with the cost, or an empty string for none.
+     * @param budgetWindow - Length of the budget's window in milliseconds.
+     * @param budgetMaxCost - Cost the budget allows per window.
+     * @returns An array with [allowed, waitTimeMs, remainingTokens, adjustedCost, laneCapacity, queuePosition,
+     *          snapshot, budget]: the JSON bucket snapshot for dry runs and the JSON budget usage, or empty strings.
+     */
+    shopifylimit(
+      tokenKey: string,
+      timestampKey: string,
+      shopifyStateKey: string,
+      concurrencyKey: string,
+      backoffKey: string,
+      decisionLogKey: string,
+      queueKey: string,
+      queueDeadlinesKey: string,
+      budgetsKey: string,
+      cost: number,
+      tokensPerSecond: number,
+      bucketCapacity: number,
+      maxConcurrency: number,
+      baseMargin: number,
+      concurrencyMultiplier: number,
+      concurrencyFactor: number,
+      baseFactor: number,
+      debug: number,
+      leaseId: string,
+      leaseTimeoutMs: number,
+      laneShare: number,
+      ticketId: string,
+      ticketTimeoutMs: number,
+      wakeChannel: string,
+      decisionLogMaxEntries: number,
+      decisionLogRetentionMs: number,
+      dryRun: number,
+      groupLeaseIds: string,
+      nowMs: number | string,
+      budgetKey: string,
+      budgetWindow: number,
+      budgetMaxCost: number
+    ): Result<LimitResult, Context>;
+
+    /**
+     * Executes the rate-limit check as a plain token bucket without safety margins.
+     * Takes the same keys and arguments as `shopifylimit`.
+     */
+    shopifylimittokenbucket(...args: Parameters<RedisCommander['shopifylimit']>): Result<LimitResult, Context>;
+
+    /**
+     * Executes the rate-limit check with the generic cell rate algorithm. Takes the same keys and
+     * arguments as `shopifylimit`, with the theoretical arrival time key in place of the token key.
+     */
+    shopifylimitgcra(...args: Parameters<RedisCommander['shopifylimit']>): Result<LimitResult, Context>;
+
+    /**
+     * Reconciles a reservation with the cost that was actually consumed.
+     *
+     * @param tokenKey - Key tracking the tokens consumed.
+     * @param timestampKey - Key tracking the last update timestamp.
+     * @param budgetsKey - Hash of the shop's budgets, keyed by budget key.
+     * @param reservedCost - The adjusted cost charged when the reservation was made.
+     * @param actualCost - The cost actually consumed by the operation.
+     * @param tokensPerSecond - The token restoration rate.
+     * @param nowMs - Current time in epoch milliseconds from an injected clock, or an empty string for Redis time.
+     * @param budgetKey - Budget the reservation was charged to, or an empty string for none.
+     * @param budgetReservedCost - The cost charged to the budget when the reservation was made.
+     * @returns The consumed token level after reconciliation.
+     */
+    shopifycommit(
+      tokenKey: string,
+      timestampKey: string,
+      budgetsKey: string,
+      reservedCost: number,
+      actualCost: number,
+      tokensPerSecond: number,
+      nowMs: number | string,
+      budgetKey: string,
+      budgetReservedCost: number
+    ): Result<string, Context>;
+
+    /**
+     * Reconciles a GCRA reservation with the cost that was actually consumed.
+     * Takes the same arguments as `shopifycommit`, with the theoretical arrival time key in place of the token key.
+     */
+    shopifycommitgcra(...args: Parameters<RedisCommander['shopifycommit']>): Result<string, Context>;
+
+    /**
+     * Releases a concurrency lease and wakes queued callers.
+     *
+     * @param concurrencyKey - Sorted set of concurrency leases scored by deadline.
+     * @param queueKey - Sorted set of fair queue tickets scored by join time.
+     * @param leaseId - The lease to release.
+     * @param wakeChannel - Channel notified if callers are queued.
+     */
+    shopifyrelease(
+      concurrencyKey: string,
+      queueKey: string,
+      leaseId: string,
+      wakeChannel: string
+    ): Result<number, Context>;
+
+    /**
+     * Removes a fair queue ticket and wakes the remaining queued callers.
+     *
+     * @param queueKey - Sorted set of fair queue tickets scored by join time.
+     * @param queueDeadlinesKey - Sorted set of fair queue tickets scored by deadline.
+     * @param ticketId - The ticket to remove.
+     * @param wakeChannel - Channel notified if callers are still queued.
+     */
+    shopifyleave(
+      queueKey: string,
+      queueDeadlinesKey: string,
+      ticketId: string,
+      wakeChannel: string
+    ): Result<number, Context>;
+
+    /**
+     * Reads the budgets whose window has not ended.
+     *
+     * @param budgetsKey - Hash of the shop's budgets, keyed by budget key.
+     * @param nowMs - Current time in epoch milliseconds from an injected clock, or an empty string for Redis time.
+     * @returns The usage of each budget by budget key, as a JSON object.
+     */
+    shopifybudgets(budgetsKey: string, nowMs: number | string): Result<string, Context>;
+
+    /**
+     * Stores a shared configuration under a new version.
+     *
+     * @param configKey - Hash holding the configuration and its version.
+     * @param config - The configuration, as JSON.
+     * @returns The new version.
+     */
+    shopifysetconfig(configKey: string, config: string): Result<number, Context>;
+
+    /**
+     * Records a Shopify throttle status unless a newer observation is already recorded.
+     *
+     * @param shopifyStateKey - Key containing Shopify throttle state.
+     * @param throttleStatus - The throttle status, as JSON.
+     * @param ageMs - How long ago the throttle status was observed.
+     * @param stateTtlMs - How long the throttle status is used.
+     * @param nowMs - Current time in epoch milliseconds from an injected clock, or an empty string for Redis time.
+     * @returns 1 if recorded, 0 if a newer observation is kept.
+     */
+    shopifysyncstate(
+      shopifyStateKey: string,
+      throttleStatus: string,
+      ageMs: number,
+      stateTtlMs: number,
+      nowMs: number | string
+    ): Result<number, Context>;
+  }
+
+  interface Redis {
+    defineCommand(
+      name: string,
+      options: {
+        numberOfKeys: number;
+        lua: string;
+      }
+    ): void;
+  }
+}
+
+/**
+ * Options for constructing a RedisStore.
+ */
+export interface RedisStoreOptions {
+  /** Retention of the per-shop decision log. */
+  decisionLog?: DecisionLogOptions;
+  /** How long a synced Shopify throttle status is used, in milliseconds (default: 10000). */
+  shopifyStateTtlMs?: number;
+  /**
+   * Clock the scripts use instead of Redis server time. Key expiry, such as backoffs and the
+   * Shopify state TTL, stays on Redis time.
+   */
+  clock?: Clock;
+  /**
+   * Keeps the store's keys apart from those of other APIs of the same shop, e.g. `rest` for
+   * `shopify:{<shop>}:rest:tokens`. Set by `ShopifyRateLimiter` from its API profile.
+   */
+  namespace?: string;
+}
+
+/**
+ * RateLimitStore backed by Redis, running the algorithm as Lua scripts so that checks from
+ * every process sharing the Redis instance are atomic.
+ */
+export class RedisStore implements RateLimitStore {
+  private readonly redis: Redis | Cluster;
+  private readonly decisionLogMaxEntries: number;
+  private readonly decisionLogRetentionMs: number;
+  private readonly releaseScript: string;
+  private readonly leaveScript: string;
+  private readonly setConfigScript: string;
+  private readonly syncStateScript: string;
+  private readonly budgetsScript: string;
+  private readonly shopifyStateTtlMs: number;
+  private readonly clock?: Clock;
+  private readonly namespace?: string;
+  private readonly wakeups: RedisWakeups;
+
+  /**
+   * @param redis - A Redis or Redis Cluster client.
+   * @param options - Store options.
+   */
+  constructor(redis: Redis | Cluster, options: RedisStoreOptions = {}) {
+    this.redis = redis;
+    this.wakeups = new RedisWakeups(redis);
+    this.decisionLogMaxEntries = options.decisionLog?.maxEntries ?? DEFAULT_DECISION_LOG_MAX_ENTRIES;
+    this.decisionLogRetentionMs = options.decisionLog?.retentionMs ?? DEFAULT_DECISION_LOG_RETENTION_MS;
+    this.shopifyStateTtlMs = options.shopifyStateTtlMs ?? DEFAULT_SHOPIFY_STATE_TTL_MS;
+    this.clock = options.clock;
+    this.namespace = options.namespace;
+    if (this.namespace !== undefined && !/^[\w-]+$/.test(this.namespace)) throw new Error('Invalid namespace');
+    const limitScript = (algorithm: RateLimitAlgorithm) => `--[[
+  Shopify Rate Limiter Lua Script (${algorithm})
+
+  Keys:
+    KEYS[1] - tokenKey: Tracks consumed tokens; the theoretical arrival time for GCRA
+    KEYS[2] - timestampKey: Last update timestamp
+    KEYS[3] - shopifyStateKey: Shopify throttle state
+    KEYS[4] - concurrencyKey: Concurrency leases (sorted set scored by deadline)
+    KEYS[5] - backoffKey: Set while Shopify is throttling the shop
+    KEYS[6] - decisionLogKey: Decision log entries for the shop (stream)
+    KEYS[7] - queueKey: Fair queue tickets (sorted set scored by join time)
+    KEYS[8] - queueDeadlinesKey: Fair queue tickets (sorted set scored by deadline)
+    KEYS[9] - budgetsKey: Budget usage by budget key (hash of JSON)
+
+  Arguments:
+    ARGV[1] - cost: Token cost for operation
+    ARGV[2] - tokensPerSecond: Token restore rate
+    ARGV[3] - bucketCapacity: Maximum tokens
+    ARGV[4] - maxConcurrency: Max concurrent requests
+    ARGV[5] - baseMargin: Base safety margin
+    ARGV[6] - concurrencyMultiplier: Extra margin per concurrent request
+    ARGV[7] - concurrencyFactor: High concurrency cost adjustment
+    ARGV[8] - baseFactor: Wait time adjustment
+    ARGV[9] - debug: Record the decision in the decision log (1 for true, 0 for false)
+    ARGV[10] - leaseId: Concurrency lease to record if approved
+    ARGV[11] - leaseTimeoutMs: Lease lifetime before it is reaped
+    ARGV[12] - laneShare: Share of the effective capacity the priority lane may fill
+    ARGV[13] - ticketId: Fair queue ticket, empty outside queued mode
+    ARGV[14] - ticketTimeoutMs: How long a ticket stays queued without being refreshed
+    ARGV[15] - wakeChannel: Channel notified when a queued caller is admitted
+    ARGV[16] - decisionLogMaxEntries: Number of entries kept in the decision log
+    ARGV[17] - decisionLogRetentionMs: How long the decision log is kept after its last entry
+    ARGV[18] - dryRun: Evaluate without changing any state (1 for true, 0 for false)
+    ARGV[19] - groupLeaseIds: Comma-separated leases admitted together with leaseId, all or nothing
+    ARGV[20] - nowMs: Current time from an injected clock, empty for Redis server time
+    ARGV[21] - budgetKey: Budget charged with the cost, empty for none
+    ARGV[22] - budgetWindow: Length of the budget's window in milliseconds
+    ARGV[23] - budgetMaxCost: Cost the budget allows per window
+
+  Returns: [allowed, waitTimeMs, remaining, adjustedCost, laneCapacity, queuePosition, snapshot, budget]
+    allowed: 1 if allowed, 0 if throttled
+    waitTimeMs: Suggested wait time if throttled
+    remaining: Remaining token capacity
+    adjustedCost: Tokens charged for the request, as a string to keep the fraction
+    laneCapacity: Capacity the priority lane may fill, as a string
+    queuePosition: Zero-based position of the ticket in the fair queue, -1 if not queued
+    snapshot: JSON bucket state for dry runs, empty otherwise
+    budget: JSON budget usage, empty without a budget
+--]]
+
+-- Input validation
+local cost = tonumber(ARGV[1])
+if not cost then error("Invalid cost") end
+
+local tokensPerSecond = tonumber(ARGV[2])
+if not tokensPerSecond then error("Invalid tokensPerSecond") end
+
+local bucketCapacity = tonumber(ARGV[3])
+if not bucketCapacity then error("Invalid bucketCapacity") end
+
+local maxConcurrency = tonumber(ARGV[4])
+if not maxConcurrency then error("Invalid maxConcurrency") end
+
+local baseMargin = tonumber(ARGV[5])
+if not baseMargin then error("Invalid baseMargin") end
+
+local concurrencyMultiplier = tonumber(ARGV[6])
+if not concurrencyMultiplier then error("Invalid concurrencyMultiplier") end
+
+local concurrencyFactor = tonumber(ARGV[7])
+if not concurrencyFactor then error("Invalid concurrencyFactor") end
+
+local baseFactor = tonumber(ARGV[8])
+if not baseFactor then error("Invalid baseFactor") end
+
+local dryRun = tonumber(ARGV[18]) == 1
+
+-- Dry runs record nothing
+local debug = tonumber(ARGV[9]) == 1 and not dryRun
+
+local leaseId = ARGV[10]
+if not dryRun and (not leaseId or leaseId == '') then error("Invalid leaseId") end
+
+-- A group reserves the combined cost for several operations, each holding its own lease
+local groupLeaseIds = {}
+for groupLeaseId in string.gmatch(ARGV[19] or '', '[^,]+') do
+  groupLeaseIds[#groupLeaseIds + 1] = groupLeaseId
+end
+
+local leaseTimeoutMs = tonumber(ARGV[11])
+if not leaseTimeoutMs or leaseTimeoutMs <= 0 then error("Invalid leaseTimeoutMs") end
+
+local laneShare = tonumber(ARGV[12])
+if not laneShare or laneShare <= 0 or laneShare > 1 then error("Invalid laneShare") end
+
+local ticketId = ARGV[13] or ''
+
+local ticketTimeoutMs = tonumber(ARGV[14])
+if ticketId ~= '' and (not ticketTimeoutMs or ticketTimeoutMs <= 0) then error("Invalid ticketTimeoutMs") end
+
+local wakeChannel = ARGV[15]
+
+local decisionLogMaxEntries = tonumber(ARGV[16])
+if debug and (not decisionLogMaxEntries or decisionLogMaxEntries <= 0) then error("Invalid decisionLogMaxEntries") end
+
+local decisionLogRetentionMs = tonumber(ARGV[17])
+if debug and (not decisionLogRetentionMs or decisionLogRetentionMs <= 0) then error("Invalid decisionLogRetentionMs") end
+
+${nowLua('ARGV[20]')}
+
+-- Decision log: the inputs and intermediate values of the check, filled in as they are computed
+local decision = {timestamp = now, leaseId = leaseId, cost = cost}
+
+local function logDecision(verdict, waitTimeMs, remaining, queuePosition)
+  if debug then
+    decision.verdict = verdict
+    decision.waitTimeMs = waitTimeMs
+    decision.remaining = remaining
+    if queuePosition >= 0 then decision.queuePosition = queuePosition end
+    redis.call('xadd', KEYS[6], 'MAXLEN', decisionLogMaxEntries, '*', 'entry', cjson.encode(decision))
+    redis.call('pexpire', KEYS[6], decisionLogRetentionMs)
+  end
+end
+
+-- Fair queue: drop abandoned tickets, then join or refresh the caller's ticket
+local queuePosition = -1
+if ticketId ~= '' and not dryRun then
+  local expired = redis.call('zrangebyscore', KEYS[8], '-inf', now)
+  if #expired > 0 then
+    redis.call('zrem', KEYS[7], unpack(expired))
+    redis.call('zrem', KEYS[8], unpack(expired))
+  end
+
+  redis.call('zadd', KEYS[7], 'NX', now, ticketId)
+  redis.call('zadd', KEYS[8], now + ticketTimeoutMs, ticketId)
+  if redis.call('pttl', KEYS[7]) < ticketTimeoutMs then
+    redis.call('pexpire', KEYS[7], ticketTimeoutMs)
+    redis.call('pexpire', KEYS[8], ticketTimeoutMs)
+  end
+  queuePosition = redis.call('zrank', KEYS[7], ticketId)
+end
+
+-- Long-window budget of the check's key, charged with the requested cost alongside the bucket
+local budgetKey = ARGV[21] or ''
+local budget = nil
+if budgetKey ~= '' then
+  local budgetWindow = tonumber(ARGV[22])
+  if not budgetWindow or budgetWindow <= 0 then error("Invalid budgetWindow") end
+  local budgetMaxCost = tonumber(ARGV[23])
+  if not budgetMaxCost or budgetMaxCost <= 0 then error("Invalid budgetMaxCost") end
+
+  -- A window that has ended starts over with the next charge
+  budget = {spent = 0, maxCost = budgetMaxCost, window = budgetWindow, resetAt = now + budgetWindow}
+  local stored = redis.call('hget', KEYS[9], budgetKey)
+  if stored then
+    local success, state = pcall(cjson.decode, stored)
+    if success and type(state) == 'table' and tonumber(state.resetAt) and tonumber(state.resetAt) > now then
+      budget.spent = tonumber(state.spent) or 0
+      budget.resetAt = tonumber(state.resetAt)
+    end
+  end
+  decision.budgetKey = budgetKey
+  decision.budgetRemaining = math.max(0, budget.maxCost - budget.spent)
+end
+local budgetFits = not budget or budget.spent + cost <= budget.maxCost
+
+local function budgetUsage()
+  if not budget then return '' end
+  return cjson.encode({key = budgetKey, spent = budget.spent, maxCost = budget.maxCost, window = budget.window,
+    resetMs = budget.resetAt - now})
+end
+
+-- Hold everyone back while Shopify has throttled the shop
+local backoffMs = math.max(0, tonumber(redis.call('pttl', KEYS[5])))
+if backoffMs > 0 and not dryRun then
+  logDecision('backoff', backoffMs, 0, queuePosition)
+  return {0, backoffMs, 0, tostring(cost), '0', queuePosition, '', budgetUsage()}
+end
+
+${LIMIT_ALGORITHM_LUA[algorithm].load}
+
+-- Check for Shopify state and update if available
+local shopifySynced = false
+local syncedState = nil
+local shopifyState = redis.call('get', KEYS[3])
+if shopifyState then
+  local success, state = pcall(cjson.decode, shopifyState)
+  if success and state then
+    if type(state.currentlyAvailable) == 'number' and 
+       type(state.restoreRate) == 'number' and 
+       type(state.maximumAvailable) == 'number' then
+      -- Sync with Shopify's state, projected forward by what it restored since it was observed.
+      -- Reservations made since then are only in the local level, so the fuller of the two wins.
+      local ageMs = math.max(0, now - (tonumber(state.observedAt) or now))
+      local available = math.min(state.maximumAvailable, state.currentlyAvailable + (ageMs / 1000) * state.restoreRate)
+      currentTokens = math.max(currentTokens, state.maximumAvailable - available)
+      tokensPerSecond = state.restoreRate
+      bucketCapacity = state.maximumAvailable
+      shopifySynced = true
+      syncedState = state
+      syncedState.ageMs = ageMs
+    end
+  end
+end
+
+-- Drop counters left behind by the previous INCR-based concurrency tracking
+local concurrencyType = redis.call('type', KEYS[4])
+if type(concurrencyType) == 'table' then concurrencyType = concurrencyType.ok end
+local currentConcurrency = 0
+if dryRun then
+  -- Count the leases that are still live without reaping the others
+  if concurrencyType ~= 'string' then
+    currentConcurrency = redis.call('zcount', KEYS[4], '(' .. now, '+inf')
+  end
+else
+  if concurrencyType == 'string' then
+    redis.call('del', KEYS[4])
+  end
+
+  -- Reap leases whose deadline has passed, e.g. from crashed workers
+  redis.call('zremrangebyscore', KEYS[4], '-inf', now)
+  currentConcurrency = redis.call('zcard', KEYS[4])
+end
+local effectiveConcurrency = currentConcurrency + 1 + #groupLeaseIds
+
+${LIMIT_ALGORITHM_LUA[algorithm].policy}
+
+-- Over budget: nothing is admitted under the key until its window ends
+if not budgetFits then
+  waitTimeMs = math.max(waitTimeMs, budget.resetAt - now)
+end
+
+decision.tokensPerSecond = tokensPerSecond
+decision.bucketCapacity = bucketCapacity
+decision.maxConcurrency = maxConcurrency
+decision.laneShare = laneShare
+decision.shopifySynced = shopifySynced
+decision.tokens = currentTokens
+decision.concurrency = effectiveConcurrency
+decision.capacityPercentage = capacityPercentage
+decision.marginMultiplier = marginMultiplier
+decision.baseMargin = dynamicBaseMargin
+decision.concurrencyMargin = concurrencyMargin
+decision.safetyMargin = safetyMargin
+decision.laneCapacity = laneCapacity
+decision.adjustedCost = adjustedCost
+
+-- Dry runs report the decision and the bucket state without changing anything
+if dryRun then
+  local snapshot = {
+    tokens = currentTokens,
+    concurrency = currentConcurrency,
+    bucketCapacity = bucketCapacity,
+    tokensPerSecond = tokensPerSecond,
+    capacityPercentage = capacityPercentage,
+    safetyMargin = safetyMargin,
+    effectiveCapacity = effectiveCapacity,
+    backoffMs = backoffMs,
+    queueLength = redis.call('zcount', KEYS[8], '(' .. now, '+inf'),
+    shopifyState = syncedState
+  }
+  local encoded = cjson.encode(snapshot)
+
+  if backoffMs > 0 then
+    return {0, backoffMs, 0, tostring(adjustedCost), tostring(laneCapacity), -1, encoded, budgetUsage()}
+  end
+  if budgetFits and currentTokens + adjustedCost <= laneCapacity then
+    local remaining = math.max(0, laneCapacity - (currentTokens + adjustedCost))
+    return {1, 0, remaining, tostring(adjustedCost), tostring(laneCapacity), -1, encoded, budgetUsage()}
+  end
+  return {0, waitTimeMs, math.max(0, laneCapacity - currentTokens), tostring(adjustedCost), tostring(laneCapacity), -1, encoded, budgetUsage()}
+end
+
+-- Check if we can proceed; queued callers also have to be first in line
+if queuePosition <= 0 and budgetFits and currentTokens + adjustedCost <= laneCapacity then
+  -- Update tokens and concurrency
+  saveTokens(currentTokens + adjustedCost)
+  if budget then
+    budget.spent = budget.spent + cost
+    redis.call('hset', KEYS[9], budgetKey, cjson.encode({spent = budget.spent, maxCost = budget.maxCost,
+      window = budget.window, resetAt = budget.resetAt}))
+    -- The hash lives as long as the latest window it holds
+    if redis.call('pttl', KEYS[9]) < budget.resetAt - now then
+      redis.call('pexpire', KEYS[9], math.ceil(budget.resetAt - now))
+    end
+  end
+  redis.call('zadd', KEYS[4], now + leaseTimeoutMs, leaseId)
+  for _, groupLeaseId in ipairs(groupLeaseIds) do
+    redis.call('zadd', KEYS[4], now + leaseTimeoutMs, groupLeaseId)
+  end
+  -- Leases may have shorter timeouts than ones already held, so the set's TTL only ever grows
+  if redis.call('pttl', KEYS[4]) < leaseTimeoutMs then
+    redis.call('pexpire', KEYS[4], leaseTimeoutMs)
+  end
+
+  -- Leave the queue and let the next caller in line check right away
+  if ticketId ~= '' then
+    redis.call('zrem', KEYS[7], ticketId)
+    redis.call('zrem', KEYS[8], ticketId)
+    if redis.call('zcard', KEYS[7]) > 0 then
+      redis.call('publish', wakeChannel, 'admitted')
+    end
+  end
+  
+  local remaining = math.max(0, laneCapacity - (currentTokens + adjustedCost))
+  logDecision('allowed', 0, remaining, queuePosition)
+  return {1, 0, remaining, tostring(adjustedCost), tostring(laneCapacity), -1, '', budgetUsage()}
+end
+
+local remaining = math.max(0, laneCapacity - currentTokens)
+logDecision('throttled', waitTimeMs, remaining, queuePosition)
+return {0, waitTimeMs, remaining, tostring(adjustedCost), tostring(laneCapacity), queuePosition, '', budgetUsage()}`;
+
+    const commitScript = (algorithm: RateLimitAlgorithm) => `--[[
+  Reservation Commit Lua Script (${algorithm})
+
+  Keys:
+    KEYS[1] - tokenKey: Tracks consumed tokens; the theoretical arrival time for GCRA
+    KEYS[2] - timestampKey: Last update timestamp
+    KEYS[3] - budgetsKey: Budget usage by budget key (hash of JSON)
+
+  Arguments:
+    ARGV[1] - reservedCost: Adjusted cost charged at admission
+    ARGV[2] - actualCost: Cost actually consumed
+    ARGV[3] - tokensPerSecond: Token restore rate
+    ARGV[4] - nowMs: Current time from an injected clock, empty for Redis server time
+    ARGV[5] - budgetKey: Budget charged at admission, empty for none
+    ARGV[6] - budgetReservedCost: Cost charged to the budget at admission
+
+  Returns: consumed token level after reconciliation, as a string
+--]]
+
+local reservedCost = tonumber(ARGV[1])
+if not reservedCost then error("Invalid reservedCost") end
+
+local actualCost = tonumber(ARGV[2])
+if not actualCost then error("Invalid actualCost") end
+
+local tokensPerSecond = tonumber(ARGV[3])
+if not tokensPerSecond then error("Invalid tokensPerSecond") end
+
+${nowLua('ARGV[4]')}
+
+-- Bring the bucket up to date before applying the difference, so a refund is not
+-- swallowed by restore that has already happened
+${LIMIT_ALGORITHM_LUA[algorithm].load}
+
+-- Refund (negative delta) or top up (positive delta) the reserved amount
+currentTokens = math.max(0, currentTokens + actualCost - reservedCost)
+saveTokens(currentTokens)
+
+-- Reconcile the budget charged at admission too, unless its window has ended since
+local budgetKey = ARGV[5] or ''
+if budgetKey ~= '' then
+  local stored = redis.call('hget', KEYS[3], budgetKey)
+  if stored then
+    local success, state = pcall(cjson.decode, stored)
+    if success and type(state) == 'table' and tonumber(state.resetAt) and tonumber(state.resetAt) > now then
+      state.spent = math.max(0, (tonumber(state.spent) or 0) + actualCost - tonumber(ARGV[6]))
+      redis.call('hset', KEYS[3], budgetKey, cjson.encode(state))
+    end
+  end
+end
+
+return tostring(currentTokens)`;
+
+    this.releaseScript = `--[[
+  Concurrency Release Lua Script
+
+  Keys:
+    KEYS[1] - concurrencyKey: Concurrency leases (sorted set scored by deadline)
+    KEYS[2] - queueKey: Fair queue tickets (sorted set scored by join time)
+
+  Arguments:
+    ARGV[1] - leaseId: Lease to release
+    ARGV[2] - wakeChannel: Channel notified if callers are queued
+
+  Returns: 1 if the lease was released, 0 if it was not held
+--]]
+
+local released = redis.call('zrem', KEYS[1], ARGV[1])
+if released > 0 and redis.call('zcard', KEYS[2]) > 0 then
+  redis.call('publish', ARGV[2], 'released')
+end
+return released`;
+
+    this.leaveScript = `--[[
+  Fair Queue Leave Lua Script
+
+  Keys:
+    KEYS[1] - queueKey: Fair queue tickets (sorted set scored by join time)
+    KEYS[2] - queueDeadlinesKey: Fair queue tickets (sorted set scored by deadline)
+
+  Arguments:
+    ARGV[1] - ticketId: Ticket to remove
+    ARGV[2] - wakeChannel: Channel notified if callers are still queued
+
+  Returns: 1 if the ticket was queued, 0 otherwise
+--]]
+
+local removed = redis.call('zrem', KEYS[1], ARGV[1])
+redis.call('zrem', KEYS[2], ARGV[1])
+if removed > 0 and redis.call('zcard', KEYS[1]) > 0 then
+  redis.call('publish', ARGV[2], 'left')
+end
+return removed`;
+
+    this.syncStateScript = `--[[
+  Shopify State Sync Lua Script
+
+  Keys:
+    KEYS[1] - shopifyStateKey: Shopify throttle state
+
+  Arguments:
+    ARGV[1] - throttleStatus: The throttle status, as JSON
+    ARGV[2] - ageMs: How long ago the throttle status was observed
+    ARGV[3] - stateTtlMs: How long the throttle status is used
+    ARGV[4] - nowMs: Current time from an injected clock, empty for Redis server time
+
+  Returns: 1 if recorded, 0 if a newer observation is kept or this one is too old to be used
+--]]
+
+-- Observation times are kept in Redis time, so clients with skewed clocks compare correctly
+${nowLua('ARGV[4]')}
+local observedAt = now - tonumber(ARGV[2])
+
+-- A late response must not overwrite what a newer one reported
+local current = redis.call('get', KEYS[1])
+if current then
+  local success, state = pcall(cjson.decode, current)
+  if success and type(state) == 'table' and tonumber(state.observedAt) and
+     tonumber(state.observedAt) > observedAt then
+    return 0
+  end
+end
+
+-- The state is used for stateTtlMs from when it was observed, not from when it arrived
+local ttlMs = math.floor(tonumber(ARGV[3]) - tonumber(ARGV[2]))
+if ttlMs <= 0 then
+  return 0
+end
+
+local state = cjson.decode(ARGV[1])
+state.observedAt = observedAt
+redis.call('set', KEYS[1], cjson.encode(state), 'PX', ttlMs)
+return 1`;
+
+    this.budgetsScript = `--[[
+  Budget Usage Lua Script
+
+  Keys:
+    KEYS[1] - budgetsKey: Budget usage by budget key (hash of JSON)
+
+  Arguments:
+    ARGV[1] - nowMs: Current time from an injected clock, empty for Redis server time
+
+  Returns: JSON object with the usage of each budget whose window has not ended, by budget key
+--]]
+
+${nowLua('ARGV[1]')}
+
+local budgets = {}
+local fields = redis.call('hgetall', KEYS[1])
+for i = 1, #fields, 2 do
+  local success, state = pcall(cjson.decode, fields[i + 1])
+  if success and type(state) == 'table' and tonumber(state.resetAt) and tonumber(state.resetAt) > now then
+    budgets[fields[i]] = {key = fields[i], spent = state.spent, maxCost = state.maxCost, window = state.window,
+      resetMs = state.resetAt - now}
+  end
+end
+-- An empty table encodes as an empty object too
+return cjson.encode(budgets)`;
+
+    this.setConfigScript = `--[[
+  Shared Configuration Lua Script
+
+  Keys:
+    KEYS[1] - configKey: Configuration and its version (hash)
+
+  Arguments:
+    ARGV[1] - config: The configuration, as JSON
+
+  Returns: the new version
+--]]
+
+local version = redis.call('hincrby', KEYS[1], 'version', 1)
+redis.call('hset', KEYS[1], 'config', ARGV[1])
+return version`;
+
+    // Register the commands with Redis. The limit checks have 9 keys, commits 3, configuration,
+    // state sync and budgets 1, the others 2.
+    for (const algorithm of Object.keys(LIMIT_COMMANDS) as RateLimitAlgorithm[]) {
+      this.redis.defineCommand(LIMIT_COMMANDS[algorithm], {
+        numberOfKeys: 9,
+        lua: limitScript(algorithm),
+      });
+    }
+    // The plain token bucket keeps its tokens like the adaptive algorithm, so both commit alike
+    this.redis.defineCommand('shopifycommit', {
+      numberOfKeys: 3,
+      lua: commitScript('adaptive'),
+    });
+    this.redis.defineCommand('shopifycommitgcra', {
+      numberOfKeys: 3,
+      lua: commitScript('gcra'),
+    });
+    this.redis.defineCommand('shopifyrelease', {
+      numberOfKeys: 2,
+      lua: this.releaseScript,
+    });
+    this.redis.defineCommand('shopifyleave', {
+      numberOfKeys: 2,
+      lua: this.leaveScript,
+    });
+    this.redis.defineCommand('shopifysetconfig', {
+      numberOfKeys: 1,
+      lua: this.setConfigScript,
+    });
+    this.redis.defineCommand('shopifysyncstate', {
+      numberOfKeys: 1,
+      lua: this.syncStateScript,
+    });
+    this.redis.defineCommand('shopifybudgets', {
+      numberOfKeys: 1,
+      lua: this.budgetsScript,
+    });
+  }
+
+  async checkLimit(shop: string, request: LimitRequest): Promise<LimitDecision> {
+    return this.runLimit(shop, request, false);
+  }
+
+  async inspect(shop: string, request: LimitRequest): Promise<LimitInspection> {
+    return this.runLimit(shop, request, true);
+  }
+
+  private async runLimit(shop: string, request: LimitRequest, dryRun: false): Promise<LimitDecision>;
+  private async runLimit(shop: string, request: LimitRequest, dryRun: true): Promise<LimitInspection>;
+  private async runLimit(shop: string, request: LimitRequest, dryRun: boolean): Promise<LimitDecision> {
+    const command = LIMIT_COMMANDS[request.algorithm ?? 'adaptive'];
+    return parseLimitResult(await this.redis[command](...this.limitArgs(shop, request, dryRun)));
+  }
+
+  /**
+   * Runs the checks in a single pipeline. If any check fails, the checks admitted alongside it are
+   * refunded and their leases released before the error is thrown.
+   */
+  async checkLimitMany(checks: { shop: string; request: LimitRequest }[]): Promise<LimitDecision[]> {
+    let settled: PromiseSettledResult<LimitDecision>[];
+    if (this.redis instanceof Cluster) {
+      // Cluster pipelines may only touch a single slot, so each check is a call of its own. ioredis
+      // only batches them per node when the cluster is created with enableAutoPipelining.
+      settled = await Promise.allSettled(checks.map(({ shop, request }) => this.checkLimit(shop, request)));
+    } else {
+      const pipeline = this.redis.pipeline();
+      for (const { shop, request } of checks) {
+        pipeline[LIMIT_COMMANDS[request.algorithm ?? 'adaptive']](...this.limitArgs(shop, request, false));
+      }
+
+      const results = (await pipeline.exec()) ?? [];
+      settled = results.map(([error, result]) =>
+        error
+          ? { status: 'rejected', reason: error }
+          : { status: 'fulfilled', value: parseLimitResult(result as LimitResult) }
+      );
+    }
+
+    const failed = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (!failed) return settled.map(result => (result as PromiseFulfilledResult<LimitDecision>).value);
+
+    await Promise.all(
+      settled.map((result, i) =>
+        result.status === 'fulfilled' && result.value.allowed
+          ? this.undoCheck(checks[i].shop, checks[i].request, result.value).catch(() => {})
+          : undefined
+      )
+    );
+    throw failed.reason;
+  }
+
+  /**
+   * Gives back what an admitted check reserved: its tokens, budget charge and leases.
+   */
+  private async undoCheck(shop: string, request: LimitRequest, decision: LimitDecision): Promise<void> {
+    const { budget, algorithm = 'adaptive' } = request;
+    await this.commit(
+      shop,
+      decision.adjustedCost,
+      0,
+      request.tokensPerSecond,
+      algorithm,
+      budget && { key: budget.key, reservedCost: request.cost }
+    );
+    for (const leaseId of [request.leaseId, ...(request.groupLeaseIds ?? [])]) {
+      await this.releaseConcurrency(shop, leaseId);
+    }
+  }
+
+  private limitArgs(shop: string, request: LimitRequest, dryRun: boolean): Parameters<RedisCommander['shopifylimit']> {
+    const keys = shopKeys(shop, this.namespace);
+
+    // The current time is only passed from an injected clock; otherwise the script reads Redis time
+    return [
+      request.algorithm === 'gcra' ? keys.tat : keys.tokens,
+      keys.timestamp,
+      keys.state,
+      keys.concurrent,
+      keys.backoff,
+      keys.decisionLog,
+      keys.queue,
+      keys.queueDeadlines,
+      keys.budgets,
+      request.cost,
+      request.tokensPerSecond,
+      request.bucketCapacity,
+      request.maxConcurrency,
+      request.baseMargin,
+      request.concurrencyMultiplier,
+      request.concurrencyFactor,
+      request.baseFactor,
+      request.debug ? 1 : 0,
+      request.leaseId,
+      request.leaseTimeoutMs,
+      request.laneShare,
+      request.ticketId ?? '',
+      request.ticketTimeoutMs ?? 0,
+      wakeChannel(shop, this.namespace),
+      this.decisionLogMaxEntries,
+      this.decisionLogRetentionMs,
+      dryRun ? 1 : 0,
+      (request.groupLeaseIds ?? []).join(','),
+      this.nowArg(),
+      request.budget?.key ?? '',
+      request.budget?.window ?? 0,
+      request.budget?.maxCost ?? 0,
+    ];
+  }
+
+  async commit(
+    shop: string,
+    reservedCost: number,
+    actualCost: number,
+    tokensPerSecond: number,
+    algorithm: RateLimitAlgorithm = 'adaptive',
+    budget?: { key: string; reservedCost: number }
+  ): Promise<number> {
+    const keys = shopKeys(shop, this.namespace);
+
+    const tokens = await this.redis[algorithm === 'gcra' ? 'shopifycommitgcra' : 'shopifycommit'](
+      algorithm === 'gcra' ? keys.tat : keys.tokens,
+      keys.timestamp,
+      keys.budgets,
+      reservedCost,
+      actualCost,
+      tokensPerSecond,
+      this.nowArg(),
+      budget?.key ?? '',
+      budget?.reservedCost ?? 0
+    );
+
+    return parseFloat(tokens);
+  }
+
+  async getBudgetUsage(shop: string): Promise<BudgetUsage[]> {
+    const budgets = await this.redis.shopifybudgets(shopKeys(shop, this.namespace).budgets, this.nowArg());
+    return Object.values<Omit<BudgetUsage, 'remaining'>>(JSON.parse(budgets))
+      .map(budgetUsage)
+      .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  }
+
+  async releaseConcurrency(shop: string, leaseId: string): Promise<void> {
+    const keys = shopKeys(shop, this.namespace);
+    await this.redis.shopifyrelease(keys.concurrent, keys.queue, leaseId, wakeChannel(shop, this.namespace));
+  }
+
+  async syncShopifyState(shop: string, throttleStatus: ShopifyThrottle, observedAt: number): Promise<boolean> {
+    const recorded = await this.redis.shopifysyncstate(
+      shopKeys(shop, this.namespace).state,
+      JSON.stringify(throttleStatus),
+      Math.max(0, (this.clock ?? Date.now)() - observedAt),
+      this.shopifyStateTtlMs,
+      this.nowArg()
+    );
+    return recorded === 1;
+  }
+
+  async backoff(shop: string, durationMs: number): Promise<void> {
+    await this.redis.set(shopKeys(shop, this.namespace).backoff, '1', 'PX', durationMs);
+  }
+
+  private nowArg(): number | string {
+    return this.clock ? this.clock() : '';
+  }
+
+  async getDecisionLog(shop: string, query: DecisionLogQuery = {}): Promise<DecisionLogEntry[]> {
+    const key = shopKeys(shop, this.namespace).decisionLog;
+    const limit = query.limit ?? 100;
+    const parse = ([id, fields]: [string, string[]]): DecisionLogEntry => ({
+      id,
+      ...JSON.parse(fields[fields.indexOf('entry') + 1]),
+    });
+
+    if (this.clock && query.since !== undefined) {
+      // Stream IDs are in Redis time, so entries timed by an injected clock are filtered by their own time
+      const since = query.since;
+      const entries = (await this.redis.xrevrange(key, '+', '-')).map(parse);
+      return entries.filter(entry => entry.timestamp >= since).slice(0, limit);
+    }
+
+    const entries = await this.redis.xrevrange(
+      key,
+      '+',
+      query.since !== undefined ? String(query.since) : '-',
+      'COUNT',
+      limit
+    );
+    return entries.map(parse);
+  }
+
+  async setConfig(shop: string | null, config: RateLimitConfig): Promise<number> {
+    return this.redis.shopifysetconfig(configKey(shop, this.namespace), JSON.stringify(config));
+  }
+
+  async getConfig(shop: string | null): Promise<StoredConfig | null> {
+    const [config, version] = await this.redis.hmget(configKey(shop, this.namespace), 'config', 'version');
+    return config ? { config: JSON.parse(config), version: Number(version) } : null;
+  }
+
+  async leaveQueue(shop: string, ticketId: string): Promise<void> {
+    const keys = shopKeys(shop, this.namespace);
+    await this.redis.shopifyleave(keys.queue, keys.queueDeadlines, ticketId, wakeChannel(shop, this.namespace));
+  }
+
+  async waitForWake(shop: string, timeoutMs: number, signal?: AbortSignal): Promise<void> {
+    return this.wakeups.wait(wakeChannel(shop, this.namespace), timeoutMs, signal);
+  }
+
+  /**
+   * Disconnects the subscriber connection opened for fair queue wake-ups.
+   * The Redis client passed to the store is left open.
+   */
+  async close(): Promise<void> {
+    await this.wakeups.close();
+  }
+
+  async cleanupShop(shop: string): Promise<void> {
+    // All keys share the shop's hash slot, so a single DEL works on Redis Cluster too
+    await this.redis.del(...Object.values(shopKeys(shop, this.namespace)));
+  }
+
+  /**
+   * Moves a shop's keys from the pre-hash-tag layout (`shopify:<shop>:tokens`) to the current one.
+   * Values and TTLs are preserved; keys that already exist in the current layout are kept.
+   *
+   * @param shop - The shop identifier.
+   * @returns The number of keys migrated.
+   */
+  async migrateLegacyKeys(shop: string): Promise<number> {
+    const legacyKeys = legacyShopKeys(shop);
+    const keys = shopKeys(shop);
+    let migrated = 0;
+
+    for (const name of Object.keys(legacyKeys) as (keyof typeof legacyKeys)[]) {
+      // DUMP/RESTORE instead of RENAME, because the old and new keys live in different slots
+      const dump = await this.redis.dumpBuffer(legacyKeys[name]);
+      if (!dump) continue;
+
+      if (!(await this.redis.exists(keys[name]))) {
+        const ttl = await this.redis.pttl(legacyKeys[name]);
+        await this.redis.restore(keys[name], ttl > 0 ? ttl : 0, dump);
+        migrated++;
+      }
+      await this.redis.del(legacyKeys[name]);
+    }
+
+    return migrated;
+  }
+
+  /**
+   * Finds every shop that still has keys in the pre-hash-tag layout and migrates it.
+   * On Redis Cluster every master node is scanned.
+   *
+   * @returns The number of keys migrated.
+   */
+  async migrateAllLegacyKeys(): Promise<number> {
+    // A shop may have any of its legacy keys left, e.g. only a backoff or a lease set
+    const suffixes = Object.keys(legacyShopKeys('')).map(name => `:${name}`);
+    const shops = new Set<string>();
+    for (const key of await this.scanKeys('shopify:*')) {
+      if (key.startsWith('shopify:{')) continue;
+      const suffix = suffixes.find(candidate => key.endsWith(candidate));
+      const shop = suffix && key.slice('shopify:'.length, -suffix.length);
+      if (shop) shops.add(shop);
+    }
+
+    let migrated = 0;
+    for (const shop of shops) {
+      migrated += await this.migrateLegacyKeys(shop);
+    }
+    return migrated;
+  }
+
+  /**
+   * Finds every shop with rate limit state, such as tokens, leases or a synced Shopify state.
+   * On Redis Cluster every master node is scanned.
+   *
+   * @returns The shop identifiers, sorted.
+   */
+  async listShops(): Promise<string[]> {
+    const suffixes = new Set(Object.values(shopKeys('', this.namespace)).map(key => key.slice('shopify:{}'.length)));
+    const shops = new Set<string>();
+    for (const key of await this.scanKeys('shopify:{*}:*')) {
+      const end = key.lastIndexOf('}');
+      if (suffixes.has(key.slice(end + 1))) shops.add(key.slice('shopify:{'.length, end));
+    }
+    return [...shops].sort();
+  }
+
+  /**
+   * Drops every concurrency lease of a shop, including ones held by live workers, and wakes its
+   * queued callers. Meant for leases leaked by crashed workers that should not wait out their timeout.
+   *
+   * @param shop - The shop identifier.
+   * @returns The number of leases dropped.
+   */
+  async releaseAllLeases(shop: string): Promise<number> {
+    const { concurrent } = shopKeys(shop, this.namespace);
+    const results = await this.redis.multi().zcard(concurrent).del(concurrent).exec();
+    await this.redis.publish(wakeChannel(shop, this.namespace), 'released');
+    return Number(results?.[0]?.[1] ?? 0);
+  }
+
+  private async scanKeys(pattern: string): Promise<string[]> {
+    const nodes = this.redis instanceof Cluster ? this.redis.nodes('master') : [this.redis];
+    const keys: string[] = [];
+
+    for (const node of nodes) {
+      let cursor = '0';
+      do {
+        const [next, found] = await node.scan(cursor, 'MATCH', pattern, 'COUNT', 500);
+        cursor = next;
+        keys.push(...found);
+      } while (cursor !== '0');
+    }
+    return keys;
+  }
+}
+
+/**
+ * Redis keys holding a shop's state. The shop is wrapped in a hash tag so that every key lands
+ * in the same Redis Cluster slot, as the Lua scripts require.
+ *
+ * @param shop - The shop identifier.
+ * @param namespace - The namespace of the API the keys belong to, if not the GraphQL Admin API.
+ */
+export function shopKeys(shop: string, namespace?: string) {
+  const prefix = namespace ? `shopify:{${shop}}:${namespace}` : `shopify:{${shop}}`;
+  return {
+    tokens: `${prefix}:tokens`,
+    timestamp: `${prefix}:timestamp`,
+    state: `${prefix}:state`,
+    concurrent: `${prefix}:concurrent`,
+    backoff: `${prefix}:backoff`,
+    decisionLog: `${prefix}:decisions`,
+    queue: `${prefix}:queue`,
+    queueDeadlines: `${prefix}:queue:deadlines`,
+    tat: `${prefix}:tat`,
+    budgets: `${prefix}:budgets`,
+  };
+}
+
+/**
+ * Redis key holding the shared configuration of a shop, or the default of every shop when `shop`
+ * is null. It is kept apart from `shopKeys`, so `cleanupShop` leaves the configuration in place.
+ *
+ * @param shop - The shop identifier, or null for the default.
+ * @param namespace - The namespace of the API the configuration belongs to, if not the GraphQL Admin API.
+ */
+export function configKey(shop: string | null, namespace?: string): string {
+  if (shop === null) return namespace ? `shopify:config:default:${namespace}` : 'shopify:config:default';
+  return namespace ? `shopify:{${shop}}:${namespace}:config` : `shopify:{${shop}}:config`;
+}
+
+/**
+ * Pub/sub channel notified when capacity frees up for a shop's queued callers.
+ *
+ * @param shop - The shop identifier.
+ * @param namespace - The namespace of the API the queue belongs to, if not the GraphQL Admin API.
+ */
+export function wakeChannel(shop: string, namespace?: string): string {
+  return namespace ? `shopify:{${shop}}:${namespace}:wake` : `shopify:{${shop}}:wake`;
+}
+
+const BUCKET_LOAD_LUA = `-- Get current token count and last update time
+local currentTokens = tonumber(redis.call('get', KEYS[1]) or 0)
+local lastUpdate = tonumber(redis.call('get', KEYS[2]) or now)
+
+-- Calculate token regeneration
+local elapsedSeconds = (now - lastUpdate) / 1000
+local drained = elapsedSeconds * tokensPerSecond
+currentTokens = math.max(0, currentTokens - drained)
+
+local function saveTokens(level)
+  redis.call('set', KEYS[1], level)
+  redis.call('set', KEYS[2], now)
+end`;
+
+/**
+ * Algorithm-specific parts of the limit script. `load` reads the consumed tokens, projected to now,
+ * into `currentTokens` and defines `saveTokens(level)`. `policy` turns the synced bucket and the
+ * concurrency into margins, the lane capacity, the adjusted cost and the wait time.
+ */
+const LIMIT_ALGORITHM_LUA: Record<RateLimitAlgorithm, { load: string; policy: string }> = {
+  adaptive: {
+    load: BUCKET_LOAD_LUA,
+    policy: `-- Calculate remaining capacity
+local remainingCapacity = bucketCapacity - currentTokens
+local capacityPercentage = (remainingCapacity / bucketCapacity) * 100
+
+-- Dynamic safety margins based on capacity
+local dynamicBaseMargin = baseMargin
+local dynamicConcurrencyMultiplier = concurrencyMultiplier
+local marginMultiplier = 1
+
+-- Increase margins when capacity is low (below 30%)
+if capacityPercentage < 30 then
+  marginMultiplier = 1 + ((30 - capacityPercentage) / 30)
+  dynamicBaseMargin = baseMargin * marginMultiplier
+  dynamicConcurrencyMultiplier = concurrencyMultiplier * marginMultiplier
+  
+  -- Extra safety when very low (below 10%)
+  if capacityPercentage < 10 then
+    marginMultiplier = marginMultiplier * 1.5
+    dynamicBaseMargin = dynamicBaseMargin * 1.5
+    dynamicConcurrencyMultiplier = dynamicConcurrencyMultiplier * 1.5
+  end
+end
+
+-- Calculate final safety margins
+local concurrencyMargin = math.min(maxConcurrency, effectiveConcurrency) * dynamicConcurrencyMultiplier
+local safetyMargin = dynamicBaseMargin + concurrencyMargin
+local effectiveCapacity = bucketCapacity - safetyMargin
+
+-- Lower priority lanes may only fill their share, keeping the rest for higher lanes
+local laneCapacity = effectiveCapacity * laneShare
+
+-- Calculate adjusted cost based on capacity and concurrency
+local capacityFactor = 1 + math.max(0, (30 - capacityPercentage) / 30)
+local concurrencyAdjustment = 1 + concurrencyFactor * (effectiveConcurrency / maxConcurrency)
+local adjustedCost = cost * capacityFactor * concurrencyAdjustment
+
+-- Calculate wait time in case the request is throttled
+local tokensNeeded = adjustedCost + currentTokens - laneCapacity
+local waitFactor = baseFactor * capacityFactor
+-- Callers held back only by their queue position have no tokens to wait for
+local waitTimeMs = math.max(0, math.ceil((tokensNeeded / tokensPerSecond) * 1000 * waitFactor))`,
+  },
+  'token-bucket': {
+    load: BUCKET_LOAD_LUA,
+    policy: `-- Plain token bucket: the lane may fill its share of the whole bucket, at the requested cost
+local capacityPercentage = ((bucketCapacity - currentTokens) / bucketCapacity) * 100
+local marginMultiplier = 1
+local dynamicBaseMargin = 0
+local concurrencyMargin = 0
+local safetyMargin = 0
+local effectiveCapacity = bucketCapacity
+local laneCapacity = effectiveCapacity * laneShare
+local adjustedCost = cost
+
+local tokensNeeded = adjustedCost + currentTokens - laneCapacity
+local waitTimeMs = math.max(0, math.ceil((tokensNeeded / tokensPerSecond) * 1000))`,
+  },
+  gcra: {
+    load: `-- GCRA keeps a single theoretical arrival time (TAT): when the bucket will have drained.
+-- The consumed tokens are how far the TAT lies ahead of now, in emission intervals.
+local tat = math.max(tonumber(redis.call('get', KEYS[1]) or now), now)
+local currentTokens = (tat - now) * tokensPerSecond / 1000
+
+local function saveTokens(level)
+  redis.call('set', KEYS[1], now + level * 1000 / tokensPerSecond)
+end`,
+    policy: `-- GCRA: no margins and no cost adjustment
+local capacityPercentage = ((bucketCapacity - currentTokens) / bucketCapacity) * 100
+local marginMultiplier = 1
+local dynamicBaseMargin = 0
+local concurrencyMargin = 0
+local safetyMargin = 0
+local effectiveCapacity = bucketCapacity
+local laneCapacity = effectiveCapacity * laneShare
+local adjustedCost = cost
+
+-- A request conforms once the TAT it would leave behind is within the lane's burst tolerance
+local emissionIntervalMs = 1000 / tokensPerSecond
+local burstToleranceMs = laneCapacity * emissionIntervalMs
+local newTat = now + (currentTokens + adjustedCost) * emissionIntervalMs
+local waitTimeMs = math.max(0, math.ceil(newTat - burstToleranceMs - now))`,
+  },
+};
+
+/**
+ * Limit script registered for each algorithm.
+ */
+const LIMIT_COMMANDS: Record<RateLimitAlgorithm, 'shopifylimit' | 'shopifylimittokenbucket' | 'shopifylimitgcra'> = {
+  adaptive: 'shopifylimit',
+  'token-bucket': 'shopifylimittokenbucket',
+  gcra: 'shopifylimitgcra',
+};
+
+const DEFAULT_SHOPIFY_STATE_TTL_MS = 10000;
+const DEFAULT_DECISION_LOG_MAX_ENTRIES = 1000;
+const DEFAULT_DECISION_LOG_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+type LimitResult = [number, number, number, string, string, number, string?, string?];
+
+function parseLimitResult(result: LimitResult): LimitDecision {
+  const [allowed, waitTimeMs, remaining, adjustedCost, laneCapacity, queuePosition, snapshot, budget] = result;
+  const decision: LimitDecision = {
+    allowed: allowed === 1,
+    waitTimeMs,
+    remaining,
+    adjustedCost: parseFloat(adjustedCost),
+    laneCapacity: parseFloat(laneCapacity),
+    queuePosition: queuePosition >= 0 ? queuePosition : undefined,
+  };
+  if (budget) decision.budget = budgetUsage(JSON.parse(budget));
+  if (!snapshot) return decision;
+
+  const { shopifyState, ...bucket } = JSON.parse(snapshot);
+  const inspected: BucketSnapshot = { ...bucket };
+  if (shopifyState) {
+    const { maximumAvailable, currentlyAvailable, restoreRate, ageMs } = shopifyState;
+    inspected.shopifyState = { throttleStatus: { maximumAvailable, currentlyAvailable, restoreRate }, ageMs };
+  }
+  return { ...decision, snapshot: inspected } as LimitInspection;
+}
+
+/**
+ * Completes the budget usage reported by a script with the cost remaining.
+ */
+function budgetUsage({ key, window, maxCost, spent, resetMs }: Omit<BudgetUsage, 'remaining'>): BudgetUsage {
+  return { key, window, maxCost, spent, remaining: Math.max(0, maxCost - spent), resetMs };
+}
+
+function legacyShopKeys(shop: string) {
+  const prefix = `shopify:${shop}`;
+  return {
+    tokens: `${prefix}:tokens`,
+    timestamp: `${prefix}:timestamp`,
+    state: `${prefix}:state`,
+    concurrent: `${prefix}:concurrent`,
+    backoff: `${prefix}:backoff`,
+  };
+}
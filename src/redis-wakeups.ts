@@ -0,0 +1,93 @@
+import { Cluster, Redis } from 'ioredis';
+
+/**
+ * Waits for messages on Redis pub/sub channels over a lazily opened subscriber connection, which
+ * subscribes to a channel only while someone is waiting on it.
+ */
+export class RedisWakeups {
+  private readonly redis: Redis | Cluster;
+  private subscriber?: Redis | Cluster;
+  private readonly listeners = new Map<string, Set<() => void>>();
+
+  /**
+   * @param redis - The client to duplicate for the subscriber connection.
+   */
+  constructor(redis: Redis | Cluster) {
+    this.redis = redis;
+  }
+
+  /**
+   * Resolves on the next message published on the channel, or after the timeout.
+   * Rejects with the signal's reason when aborted.
+   */
+  async wait(channel: string, timeoutMs: number, signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    const subscriber = this.getSubscriber();
+
+    let listeners = this.listeners.get(channel);
+    const subscribing = !listeners;
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(channel, listeners);
+    }
+
+    // The listener joins the set before subscribing, so waiters that finish while the subscription
+    // is in flight never see the set empty and drop the channel from under this one
+    const channelListeners = listeners;
+    let onSubscribeError!: (error: unknown) => void;
+    const woken = new Promise<void>((resolve, reject) => {
+      const finish = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        channelListeners.delete(onWake);
+        if (channelListeners.size === 0 && this.listeners.get(channel) === channelListeners) {
+          this.listeners.delete(channel);
+          subscriber.unsubscribe(channel).catch(() => {});
+        }
+      };
+      const onWake = () => {
+        finish();
+        resolve();
+      };
+      const onAbort = () => {
+        finish();
+        reject(signal!.reason);
+      };
+      onSubscribeError = error => {
+        // Let the next waiter subscribe again rather than wait on a channel that never delivers
+        if (this.listeners.get(channel) === channelListeners) this.listeners.delete(channel);
+        finish();
+        reject(error);
+      };
+      const timer = setTimeout(onWake, timeoutMs);
+
+      channelListeners.add(onWake);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    // Not awaited, so an abort or timeout meanwhile settles the wait right away
+    if (subscribing) subscriber.subscribe(channel).catch(onSubscribeError);
+    return woken;
+  }
+
+  /**
+   * Disconnects the subscriber connection, if one was opened.
+   */
+  async close(): Promise<void> {
+    const subscriber = this.subscriber;
+    this.subscriber = undefined;
+    this.listeners.clear();
+    if (subscriber) await subscriber.quit();
+  }
+
+  private getSubscriber(): Redis | Cluster {
+    if (!this.subscriber) {
+      // Subscribed connections cannot run other commands, so wake-ups need their own
+      this.subscriber = this.redis.duplicate();
+      this.subscriber.on('message', (channel: string) => {
+        for (const listener of [...(this.listeners.get(channel) ?? [])]) listener();
+      });
+    }
+    return this.subscriber;
+  }
+}
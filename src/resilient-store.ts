@@ -0,0 +1,401 @@
+import { StoreUnavailableError } from './errors';
+import { MemoryStore } from './memory-store';
+import type { RateLimitAlgorithm, RateLimitConfig, ShopifyThrottle } from './rate-limiter';
+import { sleep } from './sleep';
+import type {
+  BudgetUsage,
+  Clock,
+  DecisionLogEntry,
+  DecisionLogQuery,
+  LimitDecision,
+  LimitInspection,
+  LimitRequest,
+  RateLimitStore,
+  StoredConfig,
+} from './store';
+
+/**
+ * What checks do when the store fails:
+ * - `throw`: reject, leaving the decision to the caller.
+ * - `fail-open`: allow every check.
+ * - `fail-closed`: throttle every check.
+ * - `local`: decide with an in-process bucket per shop, seeded from the last known state.
+ */
+export type StoreErrorPolicy = 'throw' | 'fail-open' | 'fail-closed' | 'local';
+
+/**
+ * Options of the circuit breaker in front of the store.
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures after which the store is no longer called (default: 5). */
+  failureThreshold?: number;
+  /** How long the store is left alone before a single trial call, in milliseconds (default: 30000). */
+  resetTimeoutMs?: number;
+}
+
+/**
+ * Options for constructing a ResilientStore.
+ */
+export interface ResilientStoreOptions {
+  /** What checks do when the store fails. */
+  onStoreError: Exclude<StoreErrorPolicy, 'throw'>;
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Store used by the `local` policy (default: a new MemoryStore on the same clock). */
+  fallback?: RateLimitStore;
+  /** Called with every error of the wrapped store. */
+  onError?: (error: unknown) => void;
+  /** Source of the current time for the breaker, backoffs and learned levels (default: `Date.now`). */
+  clock?: Clock;
+}
+
+/**
+ * What the wrapper last learned about a shop from the wrapped store.
+ */
+interface KnownState {
+  tokens?: { level: number; tokensPerSecond: number; algorithm: RateLimitAlgorithm; at: number };
+  shopifyState?: { throttleStatus: ShopifyThrottle; observedAt: number };
+  backoffUntil?: number;
+}
+
+// How long a fail-closed check waits at least while the store is failing
+const FAIL_CLOSED_WAIT_MS = 1000;
+
+/**
+ * Counts consecutive failures and, past the threshold, keeps callers away from the store until
+ * the reset timeout elapsed. Then a single trial call decides whether it closes again.
+ */
+class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private failures = 0;
+  private openUntil = 0;
+  private trialPending = false;
+
+  constructor(options: CircuitBreakerOptions) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+    if (!(this.failureThreshold >= 1)) throw new Error('Invalid failure threshold');
+    if (!(this.resetTimeoutMs >= 0)) throw new Error('Invalid reset timeout');
+  }
+
+  /**
+   * Whether a call may go to the store now. Once the reset timeout elapsed, only the first
+   * caller is let through as the trial.
+   */
+  allow(now: number): boolean {
+    if (this.failures < this.failureThreshold) return true;
+    if (now < this.openUntil || this.trialPending) return false;
+    this.trialPending = true;
+    return true;
+  }
+
+  success(): void {
+    this.failures = 0;
+    this.trialPending = false;
+  }
+
+  failure(now: number): void {
+    this.failures++;
+    this.trialPending = false;
+    if (this.failures >= this.failureThreshold) this.openUntil = now + this.resetTimeoutMs;
+  }
+
+  /**
+   * Time until the store is tried again, 0 while it is still being called.
+   */
+  retryInMs(now: number): number {
+    return this.failures >= this.failureThreshold ? Math.max(0, this.openUntil - now) : 0;
+  }
+}
+
+/**
+ * RateLimitStore that puts a circuit breaker in front of another store and applies an error
+ * policy while the store fails. The limiter wraps its store in one when `onStoreError` is set.
+ *
+ * Checks decided without the wrapped store are flagged `degraded`. Reconciliation, releases and
+ * syncs that fail are dropped, or applied to the local bucket under the `local` policy. Reads
+ * without a safe substitute, such as `inspect` under `fail-open`, still throw.
+ */
+export class ResilientStore implements RateLimitStore {
+  private readonly store: RateLimitStore;
+  private readonly policy: Exclude<StoreErrorPolicy, 'throw'>;
+  private readonly breaker: CircuitBreaker;
+  private readonly fallback: RateLimitStore;
+  private readonly onError?: (error: unknown) => void;
+  private readonly clock: Clock;
+  private readonly known = new Map<string, KnownState>();
+  /** Last configurations read, so checks without a config keep working while the store fails. */
+  private readonly configs = new Map<string | null, StoredConfig>();
+  /** Shops whose local bucket was seeded during the current outage. */
+  private readonly seeded = new Set<string>();
+
+  /**
+   * @param store - The store to protect.
+   * @param options - Error policy, circuit breaker and local fallback.
+   */
+  constructor(store: RateLimitStore, options: ResilientStoreOptions) {
+    if (!['fail-open', 'fail-closed', 'local'].includes(options.onStoreError)) {
+      throw new Error('Invalid store error policy');
+    }
+    this.store = store;
+    this.policy = options.onStoreError;
+    this.breaker = new CircuitBreaker(options.circuitBreaker ?? {});
+    this.clock = options.clock ?? Date.now;
+    this.fallback = options.fallback ?? new MemoryStore({ clock: this.clock });
+    this.onError = options.onError;
+  }
+
+  async checkLimit(shop: string, request: LimitRequest): Promise<LimitDecision> {
+    return this.call(
+      async () => {
+        const decision = await this.store.checkLimit(shop, request);
+        this.learnDecision(shop, request, decision);
+        return decision;
+      },
+      () => this.degradedCheck(shop, request)
+    );
+  }
+
+  async checkLimitMany(checks: { shop: string; request: LimitRequest }[]): Promise<LimitDecision[]> {
+    return this.call(
+      async () => {
+        const decisions = await this.store.checkLimitMany(checks);
+        decisions.forEach((decision, i) => this.learnDecision(checks[i].shop, checks[i].request, decision));
+        return decisions;
+      },
+      async () => {
+        const decisions: LimitDecision[] = [];
+        for (const { shop, request } of checks) decisions.push(await this.degradedCheck(shop, request));
+        return decisions;
+      }
+    );
+  }
+
+  async inspect(shop: string, request: LimitRequest): Promise<LimitInspection> {
+    return this.call(
+      () => this.store.inspect(shop, request),
+      async error => {
+        if (this.policy !== 'local') throw error;
+        await this.seed(shop);
+        return { ...(await this.fallback.inspect(shop, request)), degraded: true };
+      }
+    );
+  }
+
+  async commit(
+    shop: string,
+    reservedCost: number,
+    actualCost: number,
+    tokensPerSecond: number,
+    algorithm: RateLimitAlgorithm = 'adaptive',
+    budget?: { key: string; reservedCost: number }
+  ): Promise<number> {
+    return this.call(
+      async () => {
+        const level = await this.store.commit(shop, reservedCost, actualCost, tokensPerSecond, algorithm, budget);
+        this.getKnown(shop).tokens = { level, tokensPerSecond, algorithm, at: this.clock() };
+        return level;
+      },
+      async () => {
+        if (this.policy !== 'local') return 0;
+        await this.seed(shop);
+        return this.fallback.commit(shop, reservedCost, actualCost, tokensPerSecond, algorithm, budget);
+      }
+    );
+  }
+
+  async releaseConcurrency(shop: string, leaseId: string): Promise<void> {
+    await this.call(
+      () => this.store.releaseConcurrency(shop, leaseId),
+      () => this.local(() => this.fallback.releaseConcurrency(shop, leaseId))
+    );
+  }
+
+  async leaveQueue(shop: string, ticketId: string): Promise<void> {
+    await this.call(
+      () => this.store.leaveQueue(shop, ticketId),
+      () => this.local(() => this.fallback.leaveQueue(shop, ticketId))
+    );
+  }
+
+  async waitForWake(shop: string, timeoutMs: number, signal?: AbortSignal): Promise<void> {
+    await this.call(
+      () => this.store.waitForWake(shop, timeoutMs, signal),
+      () => (this.policy === 'local' ? this.fallback.waitForWake(shop, timeoutMs, signal) : sleep(timeoutMs, signal))
+    );
+  }
+
+  async syncShopifyState(shop: string, throttleStatus: ShopifyThrottle, observedAt: number): Promise<boolean> {
+    const known = this.getKnown(shop);
+    if (!known.shopifyState || known.shopifyState.observedAt <= observedAt) {
+      known.shopifyState = { throttleStatus: { ...throttleStatus }, observedAt };
+    }
+    return this.call(
+      () => this.store.syncShopifyState(shop, throttleStatus, observedAt),
+      async () => this.policy === 'local' && this.fallback.syncShopifyState(shop, throttleStatus, observedAt)
+    );
+  }
+
+  async backoff(shop: string, durationMs: number): Promise<void> {
+    this.getKnown(shop).backoffUntil = this.clock() + durationMs;
+    await this.call(
+      () => this.store.backoff(shop, durationMs),
+      () => this.local(() => this.fallback.backoff(shop, durationMs))
+    );
+  }
+
+  async getDecisionLog(shop: string, query?: DecisionLogQuery): Promise<DecisionLogEntry[]> {
+    return this.call(
+      () => this.store.getDecisionLog(shop, query),
+      async error => {
+        if (this.policy !== 'local') throw error;
+        return this.fallback.getDecisionLog(shop, query);
+      }
+    );
+  }
+
+  async getBudgetUsage(shop: string): Promise<BudgetUsage[]> {
+    return this.call(
+      () => this.store.getBudgetUsage(shop),
+      async error => {
+        if (this.policy !== 'local') throw error;
+        return this.fallback.getBudgetUsage(shop);
+      }
+    );
+  }
+
+  async setConfig(shop: string | null, config: RateLimitConfig): Promise<number> {
+    return this.call(
+      () => this.store.setConfig(shop, config),
+      async error => {
+        throw error;
+      }
+    );
+  }
+
+  async getConfig(shop: string | null): Promise<StoredConfig | null> {
+    return this.call(
+      async () => {
+        const stored = await this.store.getConfig(shop);
+        if (stored) this.configs.set(shop, stored);
+        else this.configs.delete(shop);
+        return stored;
+      },
+      async error => {
+        // Without a cached answer, a missing config could not be told apart from a failed read
+        if (!this.configs.has(shop)) throw error;
+        return this.configs.get(shop)!;
+      }
+    );
+  }
+
+  async cleanupShop(shop: string): Promise<void> {
+    this.known.delete(shop);
+    await this.fallback.cleanupShop(shop);
+    await this.store.cleanupShop(shop);
+  }
+
+  async close(): Promise<void> {
+    await this.store.close?.();
+    await this.fallback.close?.();
+  }
+
+  /**
+   * Calls the wrapped store through the circuit breaker, handing failures to `degraded`.
+   */
+  private async call<T>(primary: () => Promise<T>, degraded: (error: unknown) => Promise<T>): Promise<T> {
+    if (!this.breaker.allow(this.clock())) return degraded(new StoreUnavailableError());
+
+    let result: T;
+    try {
+      result = await primary();
+    } catch (error) {
+      this.breaker.failure(this.clock());
+      this.onError?.(error);
+      return degraded(error);
+    }
+
+    this.breaker.success();
+    if (this.seeded.size > 0) await this.recover();
+    return result;
+  }
+
+  private async degradedCheck(shop: string, request: LimitRequest): Promise<LimitDecision> {
+    // The lane capacity is unknown, so it is reported as 0 like for a backoff
+    const unknown = { remaining: 0, adjustedCost: request.cost, laneCapacity: 0, degraded: true };
+
+    switch (this.policy) {
+      case 'fail-open':
+        return { allowed: true, waitTimeMs: 0, ...unknown };
+      case 'fail-closed':
+        return {
+          allowed: false,
+          waitTimeMs: Math.max(FAIL_CLOSED_WAIT_MS, this.breaker.retryInMs(this.clock())),
+          ...unknown,
+        };
+      case 'local':
+        await this.seed(shop);
+        return { ...(await this.fallback.checkLimit(shop, request)), degraded: true };
+    }
+  }
+
+  private async local(apply: () => Promise<void>): Promise<void> {
+    if (this.policy === 'local') await apply();
+  }
+
+  /**
+   * Seeds the local bucket of a shop, once per outage, with the last known token level, Shopify
+   * throttle status and backoff, each projected to now.
+   */
+  private async seed(shop: string): Promise<void> {
+    if (this.seeded.has(shop)) return;
+    this.seeded.add(shop);
+
+    const known = this.known.get(shop);
+    const now = this.clock();
+    if (known?.tokens) {
+      const { level, tokensPerSecond, algorithm, at } = known.tokens;
+      const projected = Math.max(0, level - ((now - at) / 1000) * tokensPerSecond);
+      // Committing against an empty bucket sets its level
+      await this.fallback.commit(shop, 0, projected, tokensPerSecond, algorithm);
+    }
+    if (known?.shopifyState) {
+      // The local bucket projects the throttle status from when it was observed
+      await this.fallback.syncShopifyState(shop, known.shopifyState.throttleStatus, known.shopifyState.observedAt);
+    }
+    if (known?.backoffUntil !== undefined && known.backoffUntil > now) {
+      await this.fallback.backoff(shop, known.backoffUntil - now);
+    }
+  }
+
+  /**
+   * Drops the local buckets once the wrapped store answers again, so the next outage starts
+   * from fresh state.
+   */
+  private async recover(): Promise<void> {
+    const shops = [...this.seeded];
+    this.seeded.clear();
+    for (const shop of shops) await this.fallback.cleanupShop(shop);
+  }
+
+  private learnDecision(shop: string, request: LimitRequest, decision: LimitDecision): void {
+    // Backoffs report no lane capacity and say nothing about the token level
+    if (decision.laneCapacity <= 0) return;
+    // Remaining is measured against the lane, after the reserved cost for allowed checks
+    this.getKnown(shop).tokens = {
+      level: Math.max(0, decision.laneCapacity - decision.remaining),
+      tokensPerSecond: request.tokensPerSecond,
+      algorithm: request.algorithm ?? 'adaptive',
+      at: this.clock(),
+    };
+  }
+
+  private getKnown(shop: string): KnownState {
+    let known = this.known.get(shop);
+    if (!known) {
+      known = {};
+      this.known.set(shop, known);
+    }
+    return known;
+  }
+}
@@ -0,0 +1,119 @@
+import type { ShopifyThrottle } from './rate-limiter';
+
+/**
+ * The `extensions.cost` block of a Shopify GraphQL response.
+ */
+export interface ShopifyQueryCost {
+  requestedQueryCost: number;
+  actualQueryCost: number | null;
+  throttleStatus: ShopifyThrottle;
+}
+
+/**
+ * The parts of a Shopify GraphQL response body the rate limiter understands.
+ */
+export interface ShopifyGraphQLResponse {
+  errors?: Array<{ message?: string; extensions?: { code?: string } }>;
+  extensions?: { cost?: Partial<ShopifyQueryCost> };
+}
+
+/**
+ * Rate limiting information extracted from a Shopify GraphQL response.
+ */
+export interface ShopifyResponseObservation {
+  throttled: boolean;
+  requestedQueryCost?: number;
+  actualQueryCost?: number;
+  throttleStatus?: ShopifyThrottle;
+  backoffMs: number;
+}
+
+/**
+ * The parts of a Shopify REST Admin API response the rate limiter understands.
+ */
+export interface ShopifyRestResponse {
+  status: number;
+  /** Response headers, as a fetch `Headers` object or a Node.js header record. */
+  headers: { get(name: string): string | null } | Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Rate limiting information extracted from a Shopify REST Admin API response.
+ */
+export interface ShopifyRestObservation {
+  /** The response was a 429 Too Many Requests. */
+  throttled: boolean;
+  /** Requests in the shop's bucket, from the `X-Shopify-Shop-Api-Call-Limit` header. */
+  callsMade?: number;
+  /** Size of the shop's bucket, from the `X-Shopify-Shop-Api-Call-Limit` header. */
+  callLimit?: number;
+  backoffMs: number;
+}
+
+const DEFAULT_THROTTLE_BACKOFF_MS = 1000;
+
+function isThrottleStatus(value: unknown): value is ShopifyThrottle {
+  const status = value as ShopifyThrottle | undefined;
+  return (
+    typeof status?.maximumAvailable === 'number' &&
+    typeof status.currentlyAvailable === 'number' &&
+    typeof status.restoreRate === 'number'
+  );
+}
+
+/**
+ * Extracts the query cost, throttle status and THROTTLED errors from a GraphQL response body.
+ * Throttled responses get a backoff long enough for Shopify to restore the requested cost.
+ *
+ * @param body - The parsed JSON body of a Shopify GraphQL response.
+ */
+export function parseShopifyResponse(body: ShopifyGraphQLResponse): ShopifyResponseObservation {
+  const cost = body.extensions?.cost;
+  const throttled = (body.errors ?? []).some(error => error.extensions?.code === 'THROTTLED');
+  const throttleStatus = isThrottleStatus(cost?.throttleStatus) ? cost!.throttleStatus : undefined;
+  const requestedQueryCost = typeof cost?.requestedQueryCost === 'number' ? cost.requestedQueryCost : undefined;
+  const actualQueryCost = typeof cost?.actualQueryCost === 'number' ? cost.actualQueryCost : undefined;
+
+  let backoffMs = 0;
+  if (throttled) {
+    backoffMs = DEFAULT_THROTTLE_BACKOFF_MS;
+    if (throttleStatus && requestedQueryCost !== undefined && throttleStatus.restoreRate > 0) {
+      const missing = requestedQueryCost - throttleStatus.currentlyAvailable;
+      backoffMs = Math.max(backoffMs, Math.ceil((missing / throttleStatus.restoreRate) * 1000));
+    }
+  }
+
+  return { throttled, requestedQueryCost, actualQueryCost, throttleStatus, backoffMs };
+}
+
+/**
+ * Extracts the bucket level from the `X-Shopify-Shop-Api-Call-Limit` header of a REST Admin API
+ * response, e.g. `32/40`. Throttled responses back off for the `Retry-After` seconds Shopify sends.
+ *
+ * @param response - The status and headers of a Shopify REST response.
+ */
+export function parseShopifyRestResponse(response: ShopifyRestResponse): ShopifyRestObservation {
+  const throttled = response.status === 429;
+  const observation: ShopifyRestObservation = { throttled, backoffMs: 0 };
+
+  const callLimit = /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(header(response, 'x-shopify-shop-api-call-limit') ?? '');
+  if (callLimit && Number(callLimit[2]) > 0) {
+    observation.callsMade = Number(callLimit[1]);
+    observation.callLimit = Number(callLimit[2]);
+  }
+
+  if (throttled) {
+    const retryAfter = parseFloat(header(response, 'retry-after') ?? '');
+    observation.backoffMs = retryAfter > 0 ? Math.ceil(retryAfter * 1000) : DEFAULT_THROTTLE_BACKOFF_MS;
+  }
+  return observation;
+}
+
+function header({ headers }: ShopifyRestResponse, name: string): string | undefined {
+  if (typeof headers.get === 'function') return headers.get(name) ?? undefined;
+
+  const record = headers as Record<string, string | string[] | undefined>;
+  const key = Object.keys(record).find(candidate => candidate.toLowerCase() === name);
+  const value = key !== undefined ? record[key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
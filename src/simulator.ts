@@ -0,0 +1,240 @@
+import { MemoryStore } from './memory-store';
+import { RateLimitConfig, RateLimitReservation, ShopifyRateLimiter } from './rate-limiter';
+
+/**
+ * Query cost of a simulated request: fixed, or drawn with a uniform random number in [0, 1).
+ */
+export type CostDistribution = number | ((random: () => number) => number);
+
+/**
+ * Traffic replayed by `simulateTraffic`.
+ */
+export interface TrafficProfile {
+  /** Simulated time during which requests arrive, in milliseconds. */
+  durationMs: number;
+  /** Mean request arrivals per second; arrivals form a Poisson process. */
+  arrivalRate: number;
+  /** Requested query cost of each request. */
+  cost: CostDistribution;
+  /** Cost Shopify actually charges, as a share of the requested cost (default: 1). */
+  actualCostRatio?: number;
+  /** Requests in flight at most, like a pool of workers; further arrivals wait for a free one (default: 1). */
+  concurrency?: number;
+  /** Shopify's restore rate, in points per second. */
+  restoreRate: number;
+  /** Shopify's bucket size (default: the config's `bucketCapacity`). */
+  maximumAvailable?: number;
+  /** Time Shopify takes to answer a request, in milliseconds (default: 100). */
+  latencyMs?: number;
+  /** Seed of the random numbers, so a run can be repeated (default: 1). */
+  seed?: number;
+}
+
+/**
+ * Outcome of a simulated run.
+ */
+export interface SimulationReport {
+  /** Requests that completed. */
+  requests: number;
+  /** Checks the limiter held back. */
+  throttled: number;
+  /** Requests Shopify rejected as THROTTLED; each was retried. */
+  shopifyThrottled: number;
+  /** Mean time from arrival until Shopify accepted the request, in milliseconds. */
+  meanWaitMs: number;
+  /** 99th percentile of the wait, in milliseconds. */
+  p99WaitMs: number;
+  /** Share of the points Shopify made available during the run that requests spent. */
+  utilisation: number;
+  /** Requests still waiting when the simulation gave up, a minute after arrivals stopped. */
+  incomplete: number;
+  /** Simulated time until the last request completed, in milliseconds. */
+  elapsedMs: number;
+}
+
+interface SimulatedRequest {
+  arrivedAt: number;
+  cost: number;
+}
+
+interface SimulationEvent {
+  at: number;
+  run: () => Promise<void> | void;
+}
+
+const SIMULATED_SHOP = 'simulated-shop';
+// Requests still waiting this long after the last arrival are given up on, e.g. ones that never fit
+const DRAIN_LIMIT_MS = 60000;
+
+/**
+ * Replays a traffic profile against the limiter algorithm in virtual time, with a simulated
+ * Shopify bucket on the other side, to compare configurations before rolling them out. Runs the
+ * MemoryStore, which shares the algorithm of the Redis scripts, so no time passes and no Redis
+ * server is needed.
+ *
+ * @param config - The configuration to evaluate.
+ * @param profile - Arrivals, costs, concurrency and Shopify's restore rate.
+ * @returns Throttles, waits and bucket utilisation of the run.
+ */
+export async function simulateTraffic(config: RateLimitConfig, profile: TrafficProfile): Promise<SimulationReport> {
+  const { durationMs, arrivalRate, restoreRate } = profile;
+  if (!(durationMs > 0)) throw new Error('Invalid duration');
+  if (!(arrivalRate > 0)) throw new Error('Invalid arrival rate');
+  if (!(restoreRate > 0)) throw new Error('Invalid restore rate');
+  const concurrency = profile.concurrency ?? 1;
+  if (!(concurrency >= 1)) throw new Error('Invalid concurrency');
+  const actualCostRatio = profile.actualCostRatio ?? 1;
+  const maximumAvailable = profile.maximumAvailable ?? config.bucketCapacity;
+  const latencyMs = profile.latencyMs ?? 100;
+  const random = createRandom(profile.seed ?? 1);
+
+  let now = 0;
+  const clock = () => now;
+  const limiter = new ShopifyRateLimiter(new MemoryStore({ clock }), { clock });
+
+  // Pending events ordered by time, then by when they were scheduled
+  const events: SimulationEvent[] = [];
+  const at = (time: number, run: SimulationEvent['run']) => {
+    let index = events.length;
+    while (index > 0 && events[index - 1].at > time) index--;
+    events.splice(index, 0, { at: time, run });
+  };
+
+  // Shopify's bucket, restored lazily whenever it is looked at
+  let available = maximumAvailable;
+  let restoredAt = 0;
+  const restore = () => {
+    available = Math.min(maximumAvailable, available + ((now - restoredAt) / 1000) * restoreRate);
+    restoredAt = now;
+  };
+  const throttleStatus = () => ({ maximumAvailable, currentlyAvailable: available, restoreRate });
+
+  const waiting: SimulatedRequest[] = [];
+  const waits: number[] = [];
+  let inFlight = 0;
+  let throttled = 0;
+  let shopifyThrottled = 0;
+  let spent = 0;
+  let completed = 0;
+  let lastCompletion = 0;
+
+  const finish = () => {
+    const next = waiting.shift();
+    if (next) at(now, () => attempt(next));
+    else inFlight--;
+  };
+
+  const respond = async (request: SimulatedRequest, reservation: RateLimitReservation) => {
+    restore();
+    if (request.cost > available) {
+      shopifyThrottled++;
+      const requestedQueryCost = request.cost;
+      at(now + latencyMs, async () => {
+        restore();
+        await limiter.observeResponse(
+          SIMULATED_SHOP,
+          {
+            errors: [{ message: 'Throttled', extensions: { code: 'THROTTLED' } }],
+            extensions: { cost: { requestedQueryCost, actualQueryCost: null, throttleStatus: throttleStatus() } },
+          },
+          reservation
+        );
+        await limiter.releaseConcurrency(SIMULATED_SHOP, reservation.leaseId);
+        at(now, () => attempt(request));
+      });
+      return;
+    }
+
+    // Shopify charges the requested cost up front and refunds the difference once the query ran
+    waits.push(now - request.arrivedAt);
+    available -= request.cost;
+    const actualQueryCost = request.cost * actualCostRatio;
+    spent += actualQueryCost;
+    at(now + latencyMs, async () => {
+      restore();
+      available = Math.min(maximumAvailable, available + request.cost - actualQueryCost);
+      await limiter.observeResponse(
+        SIMULATED_SHOP,
+        {
+          extensions: { cost: { requestedQueryCost: request.cost, actualQueryCost, throttleStatus: throttleStatus() } },
+        },
+        reservation
+      );
+      await limiter.releaseConcurrency(SIMULATED_SHOP, reservation.leaseId);
+      completed++;
+      lastCompletion = now;
+      finish();
+    });
+  };
+
+  const attempt = async (request: SimulatedRequest) => {
+    const result = await limiter.checkLimit(SIMULATED_SHOP, request.cost, config);
+    if (!result.allowed) {
+      throttled++;
+      at(now + Math.max(1, result.waitTimeMs), () => attempt(request));
+      return;
+    }
+    await respond(request, result.reservation!);
+  };
+
+  // Poisson arrivals: exponentially distributed gaps
+  let arrivals = 0;
+  for (
+    let time = nextArrival(0, arrivalRate, random);
+    time < durationMs;
+    time = nextArrival(time, arrivalRate, random)
+  ) {
+    arrivals++;
+    const request = { arrivedAt: time, cost: drawCost(profile.cost, random) };
+    at(time, () => {
+      if (inFlight < concurrency) {
+        inFlight++;
+        return attempt(request);
+      }
+      waiting.push(request);
+    });
+  }
+
+  while (events.length > 0 && events[0].at <= durationMs + DRAIN_LIMIT_MS) {
+    const event = events.shift()!;
+    now = event.at;
+    await event.run();
+  }
+
+  const sorted = [...waits].sort((a, b) => a - b);
+  const elapsedMs = Math.max(lastCompletion, durationMs);
+  return {
+    requests: completed,
+    throttled,
+    shopifyThrottled,
+    meanWaitMs: sorted.length > 0 ? sorted.reduce((sum, wait) => sum + wait, 0) / sorted.length : 0,
+    p99WaitMs: sorted.length > 0 ? sorted[Math.ceil(sorted.length * 0.99) - 1] : 0,
+    utilisation: spent / (maximumAvailable + (restoreRate * elapsedMs) / 1000),
+    incomplete: arrivals - completed,
+    elapsedMs,
+  };
+}
+
+/**
+ * Mulberry32, a small seeded generator of uniform random numbers in [0, 1).
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function nextArrival(time: number, arrivalRate: number, random: () => number): number {
+  return time - (Math.log(1 - random()) / arrivalRate) * 1000;
+}
+
+function drawCost(cost: CostDistribution, random: () => number): number {
+  const drawn = typeof cost === 'number' ? cost : cost(random);
+  if (!(drawn > 0)) throw new Error('Invalid cost');
+  return drawn;
+}
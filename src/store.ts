@@ -0,0 +1,275 @@
+import type { RateLimitAlgorithm, RateLimitBudget, RateLimitConfig, ShopifyThrottle } from './rate-limiter';
+
+/**
+ * Source of the current time in epoch milliseconds, injectable for tests and simulations.
+ */
+export type Clock = () => number;
+
+/**
+ * Fully resolved parameters of a single limit check, as passed to a store.
+ */
+export interface LimitRequest {
+  cost: number;
+  tokensPerSecond: number;
+  bucketCapacity: number;
+  maxConcurrency: number;
+  baseMargin: number;
+  concurrencyMultiplier: number;
+  concurrencyFactor: number;
+  baseFactor: number;
+  /** Records the decision in the shop's decision log. */
+  debug: boolean;
+  leaseId: string;
+  /** Further leases admitted together with `leaseId`, all or nothing, for a group of operations. */
+  groupLeaseIds?: string[];
+  leaseTimeoutMs: number;
+  laneShare: number;
+  /** Fair queue ticket of the caller; omitted outside queued mode. */
+  ticketId?: string;
+  /** How long the ticket stays queued without another check. */
+  ticketTimeoutMs?: number;
+  /** The limiting algorithm; adaptive when omitted. */
+  algorithm?: RateLimitAlgorithm;
+  /** Long-window budget charged with the requested cost, in the same step as the bucket. */
+  budget?: RateLimitBudget;
+}
+
+/**
+ * Outcome of a limit check as decided by a store.
+ */
+export interface LimitDecision {
+  allowed: boolean;
+  waitTimeMs: number;
+  remaining: number;
+  adjustedCost: number;
+  laneCapacity: number;
+  /** Zero-based position in the fair queue while the caller's ticket is waiting. */
+  queuePosition?: number;
+  /** Decided without the store, under the `onStoreError` policy. */
+  degraded?: boolean;
+  /** Spending of the request's budget, after the check's charge if it was allowed. */
+  budget?: BudgetUsage;
+}
+
+/**
+ * Spending of a budget in its current window.
+ */
+export interface BudgetUsage {
+  key: string;
+  /** Length of the window, in milliseconds. */
+  window: number;
+  maxCost: number;
+  /** Cost charged in the current window, reconciled by commits. */
+  spent: number;
+  /** Cost left before checks under the key are throttled until the window ends. */
+  remaining: number;
+  /** Time until the window ends and the budget starts over, in milliseconds. */
+  resetMs: number;
+}
+
+/**
+ * State of a shop's bucket as seen by the next check, reported by a dry run.
+ */
+export interface BucketSnapshot {
+  /** Consumed tokens, projected to now at the restore rate. */
+  tokens: number;
+  /** Concurrency leases in flight. */
+  concurrency: number;
+  /** Bucket capacity after the synced Shopify state was applied. */
+  bucketCapacity: number;
+  /** Restore rate after the synced Shopify state was applied. */
+  tokensPerSecond: number;
+  capacityPercentage: number;
+  /** Safety margin the next check would be held to, including its own concurrency. */
+  safetyMargin: number;
+  /** Bucket capacity minus the safety margin. */
+  effectiveCapacity: number;
+  /** Time left on a Shopify backoff, 0 if none. */
+  backoffMs: number;
+  /** Callers waiting in the fair queue. */
+  queueLength: number;
+  /** The synced Shopify throttle status as observed, while it is fresh enough to be used; checks project it forward by `ageMs`. */
+  shopifyState?: { throttleStatus: ShopifyThrottle; ageMs: number };
+}
+
+/**
+ * Outcome of a dry-run check together with the bucket state it was decided on.
+ */
+export interface LimitInspection extends LimitDecision {
+  snapshot: BucketSnapshot;
+}
+
+/**
+ * A check recorded in a shop's decision log.
+ */
+export interface DecisionLogEntry {
+  /** Entry ID, ordered by time. */
+  id: string;
+  /** Time of the check, in milliseconds since the epoch. */
+  timestamp: number;
+  /** `backoff` when the check was held back by a Shopify backoff before it was evaluated. */
+  verdict: 'allowed' | 'throttled' | 'backoff';
+  leaseId: string;
+  cost: number;
+  waitTimeMs: number;
+  remaining: number;
+  queuePosition?: number;
+  // The inputs after the Shopify state was applied, and the values derived from them.
+  // Absent for `backoff` entries.
+  tokensPerSecond?: number;
+  bucketCapacity?: number;
+  maxConcurrency?: number;
+  laneShare?: number;
+  shopifySynced?: boolean;
+  tokens?: number;
+  concurrency?: number;
+  capacityPercentage?: number;
+  marginMultiplier?: number;
+  baseMargin?: number;
+  concurrencyMargin?: number;
+  safetyMargin?: number;
+  laneCapacity?: number;
+  adjustedCost?: number;
+  /** The budget of the check and what was left of it before the check. */
+  budgetKey?: string;
+  budgetRemaining?: number;
+}
+
+/**
+ * Selects entries of a shop's decision log.
+ */
+export interface DecisionLogQuery {
+  /** Only entries recorded at or after this time, in milliseconds since the epoch. */
+  since?: number;
+  /** Maximum number of entries, newest first (default: 100). */
+  limit?: number;
+}
+
+/**
+ * Retention of the per-shop decision logs kept by a store.
+ */
+export interface DecisionLogOptions {
+  /** Number of entries kept per shop (default: 1000). */
+  maxEntries?: number;
+  /** How long a shop's log is kept after its last entry, in milliseconds (default: 24 hours). */
+  retentionMs?: number;
+}
+
+/**
+ * A shared configuration as read from a store.
+ */
+export interface StoredConfig {
+  config: RateLimitConfig;
+  /** Incremented every time the configuration is stored. */
+  version: number;
+}
+
+/**
+ * Storage backend holding the per-shop bucket state. Every method must apply its change atomically
+ * with respect to other callers sharing the same store.
+ */
+export interface RateLimitStore {
+  /**
+   * Runs the adaptive token-bucket check, reserving tokens and acquiring the lease if allowed.
+   */
+  checkLimit(shop: string, request: LimitRequest): Promise<LimitDecision>;
+
+  /**
+   * Runs several checks, in order, in as few round trips as the backend allows.
+   */
+  checkLimitMany(checks: { shop: string; request: LimitRequest }[]): Promise<LimitDecision[]>;
+
+  /**
+   * Evaluates a check like `checkLimit` without changing any state: no tokens are reserved, no
+   * lease is acquired, expired leases and tickets are left in place and nothing is logged.
+   * The request's `leaseId`, `ticketId` and `debug` are ignored.
+   */
+  inspect(shop: string, request: LimitRequest): Promise<LimitInspection>;
+
+  /**
+   * Applies the difference between a reserved and an actual cost, in the state kept by the
+   * algorithm the tokens were reserved with (adaptive when omitted). With a budget, the difference
+   * between the cost charged to it and the actual cost is applied to the budget too, unless its
+   * window has ended since.
+   *
+   * @returns The consumed token level after reconciliation.
+   */
+  commit(
+    shop: string,
+    reservedCost: number,
+    actualCost: number,
+    tokensPerSecond: number,
+    algorithm?: RateLimitAlgorithm,
+    budget?: { key: string; reservedCost: number }
+  ): Promise<number>;
+
+  /**
+   * Removes a single concurrency lease and wakes queued callers.
+   */
+  releaseConcurrency(shop: string, leaseId: string): Promise<void>;
+
+  /**
+   * Removes a fair queue ticket, letting the next caller in line move up.
+   */
+  leaveQueue(shop: string, ticketId: string): Promise<void>;
+
+  /**
+   * Resolves once capacity may have freed up for the shop's queued callers, or after the timeout.
+   * Rejects with the signal's reason when aborted.
+   */
+  waitForWake(shop: string, timeoutMs: number, signal?: AbortSignal): Promise<void>;
+
+  /**
+   * Records Shopify's reported throttle status for the shop, as observed at `observedAt` (epoch
+   * milliseconds). Checks project it forward at its restore rate until the store's state TTL has
+   * passed since `observedAt`.
+   *
+   * @returns False if a newer observation is already recorded, which is kept, or if this one has
+   * already outlived the TTL.
+   */
+  syncShopifyState(shop: string, throttleStatus: ShopifyThrottle, observedAt: number): Promise<boolean>;
+
+  /**
+   * Throttles every check for the shop for the given duration.
+   */
+  backoff(shop: string, durationMs: number): Promise<void>;
+
+  /**
+   * Reads the shop's decision log, newest entries first.
+   */
+  getDecisionLog(shop: string, query?: DecisionLogQuery): Promise<DecisionLogEntry[]>;
+
+  /**
+   * Reads the spending of the shop's budgets whose window has not ended, sorted by key.
+   */
+  getBudgetUsage(shop: string): Promise<BudgetUsage[]>;
+
+  /**
+   * Stores the shared configuration of a shop, or the default of every shop when `shop` is null.
+   *
+   * @returns The version of the stored configuration.
+   */
+  setConfig(shop: string | null, config: RateLimitConfig): Promise<number>;
+
+  /**
+   * Reads the shared configuration of a shop, or the default when `shop` is null.
+   */
+  getConfig(shop: string | null): Promise<StoredConfig | null>;
+
+  /**
+   * Removes all state held for the shop.
+   */
+  cleanupShop(shop: string): Promise<void>;
+
+  /**
+   * Releases connections or timers owned by the store.
+   */
+  close?(): Promise<void>;
+}
+
+/**
+ * Tells a store apart from a Redis client passed to the limiter.
+ */
+export function isRateLimitStore(value: unknown): value is RateLimitStore {
+  return typeof (value as RateLimitStore).checkLimit === 'function';
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { API_PROFILES, apiProfileConfig, getApiProfile } from '../src/api-profiles';
+
+describe('API profiles', () => {
+  it('should scale the GraphQL Admin limits with the plan', () => {
+    expect(apiProfileConfig('admin-graphql')).toEqual({ bucketCapacity: 2000, tokensPerSecond: 100 });
+    expect(apiProfileConfig('admin-graphql', 'plus')).toEqual({ bucketCapacity: 20000, tokensPerSecond: 1000 });
+  });
+
+  it('should count REST requests in a plain leaky bucket', () => {
+    expect(getApiProfile('admin-rest')).toMatchObject({ namespace: 'rest', unit: 'requests' });
+    expect(apiProfileConfig('admin-rest', 'plus')).toEqual({
+      bucketCapacity: 400,
+      tokensPerSecond: 20,
+      algorithm: 'token-bucket',
+    });
+  });
+
+  it('should hand out copies of the defaults', () => {
+    apiProfileConfig('storefront').bucketCapacity = 1;
+
+    expect(API_PROFILES.storefront.plans.standard.bucketCapacity).toBe(200);
+  });
+
+  it('should reject unknown profiles and plans', () => {
+    expect(() => getApiProfile('admin-soap' as any)).toThrow('Invalid API profile');
+    expect(() => apiProfileConfig('admin-graphql', 'basic' as any)).toThrow('Invalid plan');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import Redis from 'ioredis';
+import { BulkOperationCoordinator, bulkOperationChannel, bulkOperationKeys } from '../src/bulk-operation-coordinator';
+import { BulkOperationTimeoutError } from '../src/errors';
+
+describe('BulkOperationCoordinator', () => {
+  let redis: Redis;
+  let coordinator: BulkOperationCoordinator;
+
+  beforeEach(async () => {
+    redis = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: Number(process.env.REDIS_PORT) || 6379,
+      db: 13, // Separate from the store and limiter tests, which run in parallel
+    });
+    coordinator = new BulkOperationCoordinator(redis, { leaseTimeoutMs: 200 });
+    await redis.flushdb();
+  });
+
+  afterEach(async () => {
+    await coordinator.close();
+    await redis.quit();
+  });
+
+  it('should hash-tag the slot keys with the shop', () => {
+    expect(bulkOperationKeys('my-shop.myshopify.com', 'query')).toEqual({
+      slot: 'shopify:{my-shop.myshopify.com}:bulk:query',
+      fence: 'shopify:{my-shop.myshopify.com}:bulk:query:fence',
+    });
+    expect(() => bulkOperationKeys('my-shop.myshopify.com', 'export' as any)).toThrow('Invalid bulk operation type');
+  });
+
+  it('should hold one slot per shop and operation type', async () => {
+    const query = await coordinator.acquire('test-shop', 'query');
+
+    expect(query).toEqual({ shop: 'test-shop', type: 'query', fencingToken: 1, leaseTimeoutMs: 200 });
+    expect(await coordinator.acquire('test-shop', 'query')).toBeNull();
+    expect(await coordinator.acquire('test-shop', 'mutation')).not.toBeNull();
+    expect(await coordinator.acquire('other-shop', 'query')).not.toBeNull();
+  });
+
+  it('should issue increasing fencing tokens and ignore stale holders', async () => {
+    const first = (await coordinator.acquire('test-shop', 'query'))!;
+    expect(await coordinator.release(first)).toBe(true);
+    const second = (await coordinator.acquire('test-shop', 'query'))!;
+
+    expect(second.fencingToken).toBeGreaterThan(first.fencingToken);
+    expect(await coordinator.release(first)).toBe(false);
+    expect(await coordinator.renew(first)).toBe(false);
+    expect(await coordinator.setOperationId(first, 'gid://shopify/BulkOperation/1')).toBe(false);
+    expect((await coordinator.getCurrentOperation('test-shop', 'query'))?.fencingToken).toBe(second.fencingToken);
+  });
+
+  it('should track the current bulk operation ID', async () => {
+    const lease = (await coordinator.acquire('test-shop', 'mutation'))!;
+    await coordinator.setOperationId(lease, 'gid://shopify/BulkOperation/42');
+
+    const current = await coordinator.getCurrentOperation('test-shop', 'mutation');
+
+    expect(current).toMatchObject({ fencingToken: lease.fencingToken, operationId: 'gid://shopify/BulkOperation/42' });
+    expect(current!.expiresInMs).toBeGreaterThan(0);
+    expect(await coordinator.getCurrentOperation('test-shop', 'query')).toBeNull();
+  });
+
+  it('should keep a renewed lease past its timeout', async () => {
+    let now = Date.now();
+    coordinator = new BulkOperationCoordinator(redis, { leaseTimeoutMs: 200, clock: () => now });
+    const lease = (await coordinator.acquire('test-shop', 'query'))!;
+
+    now += 120;
+    expect(await coordinator.renew(lease)).toBe(true);
+    now += 120;
+
+    expect(await coordinator.acquire('test-shop', 'query')).toBeNull();
+    expect((await coordinator.getCurrentOperation('test-shop', 'query'))?.expiresInMs).toBe(80);
+  });
+
+  it('should free the slot once the lease expires on the clock', async () => {
+    let now = Date.now();
+    coordinator = new BulkOperationCoordinator(redis, { leaseTimeoutMs: 10000, clock: () => now });
+    const lease = (await coordinator.acquire('test-shop', 'query'))!;
+
+    now += 10000;
+
+    expect(await coordinator.getCurrentOperation('test-shop', 'query')).toBeNull();
+    expect(await coordinator.renew(lease)).toBe(false);
+    expect(await coordinator.release(lease)).toBe(false);
+    await coordinator.waitForSlot('test-shop', 'query', { timeoutMs: 5000 });
+    expect((await coordinator.acquire('test-shop', 'query'))?.fencingToken).toBe(lease.fencingToken + 1);
+  });
+
+  it('should wait for the slot until the holder releases it', async () => {
+    coordinator = new BulkOperationCoordinator(redis, { leaseTimeoutMs: 10000 });
+    const lease = (await coordinator.acquire('test-shop', 'query'))!;
+
+    const started = Date.now();
+    const waiting = coordinator.waitForSlot('test-shop', 'query', { timeoutMs: 5000 });
+    await vi.waitFor(async () => {
+      const [, subscribers] = await redis.pubsub('NUMSUB', bulkOperationChannel('test-shop', 'query'));
+      expect(subscribers).toBe(1);
+    });
+    await coordinator.release(lease);
+    await waiting;
+
+    expect(Date.now() - started).toBeLessThan(2000);
+    expect(await coordinator.acquire('test-shop', 'query')).not.toBeNull();
+  });
+
+  it('should wait for the slot until the lease expires', async () => {
+    await coordinator.acquire('test-shop', 'query');
+
+    await coordinator.waitForSlot('test-shop', 'query', { timeoutMs: 5000 });
+
+    expect(await coordinator.acquire('test-shop', 'query')).not.toBeNull();
+  });
+
+  it('should give up waiting at the deadline', async () => {
+    coordinator = new BulkOperationCoordinator(redis, { leaseTimeoutMs: 10000 });
+    await coordinator.acquire('test-shop', 'query');
+
+    await expect(coordinator.waitForSlot('test-shop', 'query', { timeoutMs: 100 })).rejects.toThrow(
+      BulkOperationTimeoutError
+    );
+  });
+});
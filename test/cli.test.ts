@@ -0,0 +1,174 @@
+import { describe, it, beforeEach, afterEach, expect } from 'vitest';
+import Redis from 'ioredis';
+import { runCli } from '../src/cli';
+import { ShopifyRateLimiter } from '../src/rate-limiter';
+import { shopKeys } from '../src/redis-store';
+
+const CONFIG = { bucketCapacity: 1000, tokensPerSecond: 50 };
+// Separate from the store, limiter and bulk operation tests, which run in parallel
+const CONNECTION = [
+  '--host',
+  process.env.REDIS_HOST || 'localhost',
+  '--port',
+  process.env.REDIS_PORT || '6379',
+  '--db',
+  '12',
+];
+
+async function run(...argv: string[]) {
+  let stdout = '';
+  let stderr = '';
+  const code = await runCli([...argv, ...CONNECTION], {
+    stdout: { write: (text: string) => (stdout += text) },
+    stderr: { write: (text: string) => (stderr += text) },
+  });
+  return { code, stdout, stderr };
+}
+
+describe('runCli', () => {
+  let redis: Redis;
+  let limiter: ShopifyRateLimiter;
+
+  beforeEach(async () => {
+    redis = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: Number(process.env.REDIS_PORT) || 6379,
+      db: 12,
+    });
+    limiter = new ShopifyRateLimiter(redis);
+    await redis.flushdb();
+  });
+
+  afterEach(async () => {
+    await limiter.close();
+    await redis.quit();
+  });
+
+  it('should inspect a shop with the config given by flags', async () => {
+    await limiter.checkLimit('test-shop', 100, CONFIG);
+    await limiter.syncShopifyState('test-shop', { maximumAvailable: 1000, currentlyAvailable: 600, restoreRate: 50 });
+
+    const { code, stdout } = await run('inspect', 'test-shop', '--capacity', '1000', '--rate', '50', '--json');
+
+    const inspection = JSON.parse(stdout);
+    expect(code).toBe(0);
+    expect(inspection).toMatchObject({ shop: 'test-shop', concurrency: 1, bucketCapacity: 1000, backoffMs: 0 });
+    expect(inspection.shopifyState.throttleStatus.currentlyAvailable).toBe(600);
+    expect(inspection.keyTtls[shopKeys('test-shop').state]).toBeGreaterThan(0);
+    expect(inspection.keyTtls[shopKeys('test-shop').backoff]).toBe(-2);
+  });
+
+  it('should inspect a shop with its shared config as text', async () => {
+    await limiter.setShopConfig('test-shop', CONFIG);
+
+    const { code, stdout } = await run('inspect', 'test-shop');
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('Config:        shared, version 1');
+    expect(stdout).toMatch(/shopify:{test-shop}:tokens +missing/);
+  });
+
+  it('should reset a shop and keep its shared config', async () => {
+    await limiter.setShopConfig('test-shop', CONFIG);
+    await limiter.checkLimit('test-shop', 100);
+
+    const { code, stdout } = await run('reset', 'test-shop');
+
+    expect(code).toBe(0);
+    expect(stdout).toBe('Reset test-shop\n');
+    expect(await redis.exists(...Object.values(shopKeys('test-shop')))).toBe(0);
+    expect(await limiter.getShopConfig('test-shop')).not.toBeNull();
+  });
+
+  it('should release leaked leases', async () => {
+    await limiter.checkLimit('test-shop', 10, CONFIG);
+    await limiter.checkLimit('test-shop', 10, CONFIG);
+
+    const { code, stdout } = await run('release', 'test-shop');
+
+    expect(code).toBe(0);
+    expect(stdout).toBe('Released 2 leases of test-shop\n');
+    expect((await limiter.inspect('test-shop', CONFIG)).concurrency).toBe(0);
+  });
+
+  it('should print a line per refresh while watching', async () => {
+    const { code, stdout } = await run(
+      'watch',
+      'test-shop',
+      '--capacity',
+      '1000',
+      '--rate',
+      '50',
+      '--count',
+      '2',
+      '--interval',
+      '10'
+    );
+
+    expect(code).toBe(0);
+    expect(stdout.trim().split('\n')).toHaveLength(2);
+    expect(stdout).toContain('available 1000/1000 (100%)');
+  });
+
+  it('should list the shops with the most throttled checks first', async () => {
+    await limiter.setDefaultConfig({ ...CONFIG, debug: true });
+    await limiter.checkLimit('throttled-shop', 800);
+    await limiter.checkLimit('throttled-shop', 500);
+    await limiter.checkLimit('throttled-shop', 500);
+    await limiter.checkLimit('busy-shop', 800);
+    await limiter.checkLimit('busy-shop', 500);
+    await limiter.checkLimit('idle-shop', 10);
+    await limiter.observeResponse('backoff-shop', {
+      errors: [{ message: 'Throttled', extensions: { code: 'THROTTLED' } }],
+      extensions: {
+        cost: {
+          requestedQueryCost: 100,
+          actualQueryCost: null,
+          throttleStatus: { maximumAvailable: 1000, currentlyAvailable: 20, restoreRate: 50 },
+        },
+      },
+    });
+
+    const { code, stdout } = await run('top', '--window', '60000', '--json');
+
+    const output = JSON.parse(stdout);
+    expect(code).toBe(0);
+    expect(output.windowMs).toBe(60000);
+    expect(output.shops.map(({ shop, throttled }: { shop: string; throttled: number }) => [shop, throttled])).toEqual([
+      ['throttled-shop', 2],
+      ['busy-shop', 1],
+      ['backoff-shop', 0],
+      ['idle-shop', 0],
+    ]);
+  });
+
+  it('should inspect the buckets of an API profile', async () => {
+    const rest = new ShopifyRateLimiter(redis, { profile: 'admin-rest' });
+    await rest.checkLimit('test-shop', 1);
+
+    const { code, stdout } = await run('inspect', 'test-shop', '--profile', 'admin-rest', '--plan', 'plus', '--json');
+
+    const inspection = JSON.parse(stdout);
+    expect(code).toBe(0);
+    expect(inspection).toMatchObject({ concurrency: 1, bucketCapacity: 400, tokensPerSecond: 20 });
+    expect(inspection.keyTtls[shopKeys('test-shop', 'rest').concurrent]).not.toBe(-2);
+    await rest.close();
+  });
+
+  it('should reject invalid command lines', async () => {
+    expect((await run('inspect')).code).toBe(2);
+    expect((await run('inspect', 'test-shop', '--capacity', '1000')).stderr).toContain(
+      '--capacity and --rate go together'
+    );
+    expect((await run('drain', 'test-shop')).stderr).toContain('Unknown command drain');
+    expect((await run('inspect', 'test-shop', '--verbose')).code).toBe(2);
+    expect((await run('inspect', 'test-shop', '--profile', 'admin-soap')).stderr).toContain('Invalid --profile');
+  });
+
+  it('should report a shop without a config', async () => {
+    const { code, stderr } = await run('inspect', 'test-shop');
+
+    expect(code).toBe(1);
+    expect(stderr).toBe('Error: No rate limit config for test-shop\n');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildSchema, parse } from 'graphql';
+import { QueryCostEstimator } from '../src/cost-estimator';
+
+const PRODUCTS_QUERY = `
+  query Products($first: Int!) {
+    products(first: $first) {
+      pageInfo { hasNextPage }
+      edges {
+        cursor
+        node {
+          id
+          title
+          variants(first: 5) {
+            nodes { id price }
+          }
+        }
+      }
+    }
+  }
+`;
+
+describe('QueryCostEstimator', () => {
+  const estimator = new QueryCostEstimator();
+
+  it('should make scalars free and charge objects 1', () => {
+    expect(estimator.estimate('{ shop { id name primaryDomain { url } } }')).toBe(2);
+  });
+
+  it('should multiply connections by their page size', () => {
+    expect(estimator.estimate('{ products(first: 10) { edges { node { id } } } }')).toBe(12);
+    expect(estimator.estimate('{ orders(last: 3) { nodes { id } } }')).toBe(5);
+  });
+
+  it('should resolve page sizes from variables', () => {
+    // 2 + 10 * (node 1 + variants 2 + 5 * 1)
+    expect(estimator.estimate(PRODUCTS_QUERY, { first: 10 })).toBe(82);
+    expect(estimator.estimate(PRODUCTS_QUERY, { first: 1 })).toBe(10);
+  });
+
+  it('should fall back to variable defaults and the maximum page size', () => {
+    const query = 'query ($first: Int = 20) { products(first: $first) { nodes { id } } }';
+    expect(estimator.estimate(query)).toBe(22);
+    expect(estimator.estimate('query ($n: Int) { products(first: $n) { nodes { id } } }')).toBe(252);
+  });
+
+  it('should charge 10 per mutation field', () => {
+    const mutation = `
+      mutation {
+        productUpdate(input: { id: "1", title: "x" }) { product { id } userErrors { message } }
+        tagsAdd(id: "1", tags: ["a"]) { node { id } }
+      }
+    `;
+    expect(estimator.estimate(mutation)).toBe(20);
+  });
+
+  it('should expand fragments', () => {
+    const query = `
+      query { products(first: 2) { nodes { ...ProductFields } } }
+      fragment ProductFields on Product { id featuredImage { url } ... on Product { seo { title } } }
+    `;
+    // 2 + 2 * (node 1 + featuredImage 1 + seo 1)
+    expect(estimator.estimate(query)).toBe(8);
+  });
+
+  it('should apply per-field overrides by name and path', () => {
+    const custom = new QueryCostEstimator({
+      fieldCosts: { metafield: 3, 'products.nodes': 2 },
+    });
+    expect(custom.estimate('{ products(first: 5) { nodes { id metafield(key: "a") { value } } } }')).toBe(27);
+  });
+
+  it('should price fields by the cost directives of a schema', () => {
+    const schema = buildSchema(`
+      directive @cost(weight: String!) on FIELD_DEFINITION
+      type Query { products(first: Int): ProductConnection! node(id: ID!): Node }
+      type ProductConnection { edges: [ProductEdge!]! }
+      type ProductEdge { node: Product! }
+      interface Node { id: ID! }
+      type Product implements Node { id: ID! title: String! inventory: Int! @cost(weight: "5") }
+      type Mutation { productDelete(id: ID!): ID @cost(weight: "20") }
+    `);
+    const priced = new QueryCostEstimator({ schema, fieldCosts: { 'node.inventory': 1 } });
+
+    // 2 + 3 * (node 1 + inventory 5)
+    expect(priced.estimate('{ products(first: 3) { edges { node { id inventory } } } }')).toBe(20);
+    // Fragments are priced by their type condition; a path in fieldCosts overrides the directive
+    expect(priced.estimate('{ node(id: "1") { ... on Product { inventory } } }')).toBe(2);
+    expect(priced.estimate('mutation { productDelete(id: "1") }')).toBe(20);
+  });
+
+  it('should select the operation by name', () => {
+    const document = 'query A { shop { id } } query B { products(first: 3) { nodes { id } } }';
+    expect(estimator.estimate(document, {}, 'B')).toBe(5);
+    expect(() => estimator.estimate(document)).toThrow('Operation name required');
+  });
+
+  it('should analyse each document once', () => {
+    const cached = new QueryCostEstimator();
+    const analyseSpy = vi.spyOn(cached as any, 'analyse');
+    const document = parse(PRODUCTS_QUERY);
+
+    cached.estimate(PRODUCTS_QUERY, { first: 10 });
+    cached.estimate(PRODUCTS_QUERY, { first: 20 });
+    cached.estimate(document, { first: 10 });
+    cached.estimate(document, { first: 20 });
+
+    expect(analyseSpy).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import Redis from 'ioredis';
+import { ShopifyRateLimiter } from '../src/rate-limiter';
+import { createRateLimitedFetch } from '../src/fetch';
+
+const DEFAULT_CONFIG = {
+  bucketCapacity: 2000,
+  tokensPerSecond: 100,
+  maxConcurrency: 5,
+};
+
+const THROTTLE_STATUS = {
+  maximumAvailable: 2000,
+  currentlyAvailable: 1900,
+  restoreRate: 100,
+};
+
+const QUERY = 'query ($first: Int) { products(first: $first) { nodes { id } } }';
+
+describe('createRateLimitedFetch', () => {
+  let server: Server;
+  let url: string;
+  let responses: object[];
+  let requests: { shop: string | undefined; body: any }[];
+  let redis: Redis;
+  let limiter: ShopifyRateLimiter;
+
+  beforeEach(async () => {
+    responses = [];
+    requests = [];
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        requests.push({ shop: req.headers['x-shop'] as string | undefined, body: JSON.parse(body) });
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(responses.shift() ?? {}));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/admin/api/graphql.json`;
+
+    redis = {
+      defineCommand: vi.fn(),
+      shopifylimit: vi.fn().mockResolvedValue([1, 0, 1800, '14.4', '1920', -1]),
+      shopifycommit: vi.fn().mockResolvedValue('0'),
+      shopifysyncstate: vi.fn().mockResolvedValue(1),
+      set: vi.fn(),
+      shopifyrelease: vi.fn(),
+      shopifyleave: vi.fn(),
+    } as unknown as Redis;
+    limiter = new ShopifyRateLimiter(redis);
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function createFetch(overrides = {}) {
+    return createRateLimitedFetch({
+      limiter,
+      shopFromRequest: request => request.headers.get('x-shop')!,
+      config: DEFAULT_CONFIG,
+      ...overrides,
+    });
+  }
+
+  function post(rateLimitedFetch: typeof fetch) {
+    return rateLimitedFetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Shop': 'test-shop' },
+      body: JSON.stringify({ query: QUERY, variables: { first: 10 } }),
+    });
+  }
+
+  it('should admit the request by its estimated cost and observe the response', async () => {
+    responses.push({
+      data: { products: { nodes: [] } },
+      extensions: { cost: { requestedQueryCost: 12, actualQueryCost: 3, throttleStatus: THROTTLE_STATUS } },
+    });
+
+    const response = await post(createFetch());
+
+    expect(await response.json()).toEqual(expect.objectContaining({ data: { products: { nodes: [] } } }));
+    expect(requests).toEqual([{ shop: 'test-shop', body: { query: QUERY, variables: { first: 10 } } }]);
+    expect(vi.mocked(redis.shopifylimit).mock.calls[0][9]).toBe(12);
+    expect(redis.shopifysyncstate).toHaveBeenCalledWith(
+      'shopify:{test-shop}:state',
+      JSON.stringify(THROTTLE_STATUS),
+      expect.any(Number),
+      10000,
+      ''
+    );
+    expect(vi.mocked(redis.shopifycommit).mock.calls[0][4]).toBe(3);
+    expect(redis.shopifyrelease).toHaveBeenCalledTimes(1);
+  });
+
+  it("should time observations by the limiter's clock", async () => {
+    const now = Date.now() + 60000;
+    limiter = new ShopifyRateLimiter(redis, { clock: () => now });
+    responses.push({ data: {}, extensions: { cost: { actualQueryCost: 3, throttleStatus: THROTTLE_STATUS } } });
+
+    await post(createFetch());
+
+    expect(vi.mocked(redis.shopifysyncstate).mock.calls[0][2]).toBe(0);
+  });
+
+  it('should use the provided cost', async () => {
+    await post(createFetch({ cost: () => 42 }));
+
+    expect(vi.mocked(redis.shopifylimit).mock.calls[0][9]).toBe(42);
+  });
+
+  it('should retry THROTTLED responses', async () => {
+    responses.push(
+      {
+        errors: [{ message: 'Throttled', extensions: { code: 'THROTTLED' } }],
+        extensions: { cost: { requestedQueryCost: 12, actualQueryCost: null, throttleStatus: THROTTLE_STATUS } },
+      },
+      { data: { products: { nodes: [{ id: '1' }] } } }
+    );
+
+    const response = await post(createFetch());
+
+    expect(await response.json()).toEqual({ data: { products: { nodes: [{ id: '1' }] } } });
+    expect(requests).toHaveLength(2);
+    expect(redis.set).toHaveBeenCalledWith('shopify:{test-shop}:backoff', '1', 'PX', 1000);
+    expect(redis.shopifyrelease).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return the THROTTLED response once retries are exhausted', async () => {
+    const throttled = { errors: [{ message: 'Throttled', extensions: { code: 'THROTTLED' } }] };
+    responses.push(throttled, throttled);
+
+    const response = await post(createFetch({ maxThrottleRetries: 1 }));
+
+    expect(await response.json()).toEqual(throttled);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should reject requests that are not GraphQL operations', async () => {
+    await expect(createFetch()(url, { method: 'POST', body: 'not json' })).rejects.toThrow(
+      'Request body is not a GraphQL operation'
+    );
+    expect(redis.shopifylimit).not.toHaveBeenCalled();
+  });
+});
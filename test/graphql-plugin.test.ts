@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { buildSchema, execute, ExecutionResult, GraphQLError, parse } from 'graphql';
+import { createApolloRateLimitPlugin, useRateLimiter } from '../src/graphql-plugin';
+import { MemoryStore } from '../src/memory-store';
+import { ShopifyRateLimiter } from '../src/rate-limiter';
+import type { ShopifyQueryCost } from '../src/shopify-response';
+
+const CONFIG = { bucketCapacity: 100, tokensPerSecond: 10, baseMargin: 0, concurrencyMultiplier: 0 };
+
+const schema = buildSchema(`
+  directive @cost(weight: String!) on FIELD_DEFINITION
+  type Query { orders(first: Int): OrderConnection! report: String! @cost(weight: "60") }
+  type OrderConnection { nodes: [Order!]! }
+  type Order { id: ID! }
+`);
+const rootValue = { orders: () => ({ nodes: [{ id: '1' }] }), report: () => 'ok' };
+
+interface Context {
+  apiKey?: string;
+}
+
+describe('useRateLimiter', () => {
+  let limiter: ShopifyRateLimiter;
+
+  beforeEach(() => {
+    limiter = new ShopifyRateLimiter(new MemoryStore());
+  });
+
+  /**
+   * Runs an operation through the plugin the way envelop does: `onExecute`, then either the
+   * result set by the plugin or the executed result followed by `onExecuteDone`.
+   */
+  async function run(source: string, contextValue: Context = { apiKey: 'client-1' }) {
+    const plugin = useRateLimiter<Context>({ limiter, key: context => context.apiKey, config: CONFIG });
+    const args = { schema, document: parse(source), rootValue, contextValue };
+    let stopped: ExecutionResult | undefined;
+    const hooks = await plugin.onExecute({ args, setResultAndStopExecution: result => (stopped = result) });
+    if (stopped) return stopped;
+    const result = await execute(args);
+    if (hooks) await hooks.onExecuteDone();
+    return result;
+  }
+
+  it('should charge the estimated cost to the client and release its lease', async () => {
+    const checkLimit = vi.spyOn(limiter, 'checkLimit');
+
+    const result = await run('{ orders(first: 10) { nodes { id } } report }');
+
+    expect(result.errors).toBeUndefined();
+    // 2 + 10 * 1 + 60 by the cost directive
+    expect(checkLimit).toHaveBeenCalledWith('client-1', 72, CONFIG);
+    expect((await limiter.inspect('client-1', CONFIG)).concurrency).toBe(0);
+  });
+
+  it('should answer throttled operations with a Shopify-style error', async () => {
+    await run('{ report }');
+
+    const result = await run('{ report }');
+
+    expect(result.data).toBeUndefined();
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors![0]).toBeInstanceOf(GraphQLError);
+    expect(result.errors![0]).toMatchObject({ message: 'Throttled', extensions: { code: 'THROTTLED' } });
+    expect(result.extensions).toEqual({
+      cost: {
+        requestedQueryCost: 60,
+        actualQueryCost: null,
+        throttleStatus: { maximumAvailable: 100, currentlyAvailable: expect.any(Number), restoreRate: 10 },
+      },
+    });
+    expect((result.extensions!.cost as ShopifyQueryCost).throttleStatus.currentlyAvailable).toBeLessThan(60);
+  });
+
+  it('should keep clients apart and let unidentified clients through', async () => {
+    await run('{ report }');
+
+    expect((await run('{ report }', { apiKey: 'client-2' })).errors).toBeUndefined();
+    expect((await run('{ report }', {})).errors).toBeUndefined();
+    expect((await run('{ report }', {})).errors).toBeUndefined();
+  });
+});
+
+describe('createApolloRateLimitPlugin', () => {
+  it('should throw the throttled error and add the cost block to the response', async () => {
+    const limiter = new ShopifyRateLimiter(new MemoryStore());
+    const plugin = createApolloRateLimitPlugin<Context>({ limiter, key: context => context.apiKey, config: CONFIG });
+    const requestContext = {
+      schema,
+      document: parse('{ report }'),
+      request: {},
+      contextValue: { apiKey: 'client-1' },
+      response: { body: { kind: 'single' as const, singleResult: {} as ExecutionResult } },
+    };
+
+    const first = await plugin.requestDidStart(requestContext);
+    await first.didResolveOperation(requestContext);
+    const second = await plugin.requestDidStart(requestContext);
+    await expect(second.didResolveOperation(requestContext)).rejects.toThrow('Throttled');
+    await second.willSendResponse(requestContext);
+    await first.willSendResponse(requestContext);
+
+    expect(requestContext.response.body.singleResult.extensions?.cost).toMatchObject({ requestedQueryCost: 60 });
+    expect((await limiter.inspect('client-1', CONFIG)).concurrency).toBe(0);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryStore } from '../src/memory-store';
+import { ShopifyRateLimiter } from '../src/rate-limiter';
+import { describeStoreConformance } from './store-conformance';
+
+describeStoreConformance('MemoryStore', clock => new MemoryStore({ clock }));
+
+describe('MemoryStore', () => {
+  it('should back a ShopifyRateLimiter without Redis', async () => {
+    const limiter = new ShopifyRateLimiter(new MemoryStore());
+    const config = { bucketCapacity: 1000, tokensPerSecond: 50 };
+
+    const result = await limiter.schedule('test-shop', 100, config, reservation => reservation.adjustedCost);
+
+    expect(result).toBe(120);
+  });
+
+  it('should record decisions when debug is enabled', async () => {
+    const limiter = new ShopifyRateLimiter(new MemoryStore());
+
+    await limiter.checkLimit('test-shop', 10, { bucketCapacity: 1000, tokensPerSecond: 50, debug: true });
+
+    const [entry] = await limiter.getDecisionLog('test-shop');
+    expect(entry).toEqual(
+      expect.objectContaining({
+        verdict: 'allowed',
+        cost: 10,
+        adjustedCost: 12,
+        capacityPercentage: 100,
+        safetyMargin: 80,
+        laneCapacity: 920,
+        remaining: 908,
+      })
+    );
+  });
+
+  it('should drop a decision log that has not been written to for the retention', async () => {
+    let now = Date.now();
+    const store = new MemoryStore({ decisionLog: { retentionMs: 50 }, clock: () => now });
+    const limiter = new ShopifyRateLimiter(store, { clock: () => now });
+
+    await limiter.checkLimit('test-shop', 10, { bucketCapacity: 1000, tokensPerSecond: 50, debug: true });
+    now += 100;
+
+    expect(await store.getDecisionLog('test-shop')).toEqual([]);
+  });
+
+  it('should stop using the synced Shopify state after the configured TTL', async () => {
+    let now = Date.now();
+    const store = new MemoryStore({ shopifyStateTtlMs: 50, clock: () => now });
+    const limiter = new ShopifyRateLimiter(store, { clock: () => now });
+    const config = { bucketCapacity: 1000, tokensPerSecond: 50 };
+
+    await limiter.syncShopifyState('test-shop', { maximumAvailable: 1000, currentlyAvailable: 0, restoreRate: 50 });
+    expect((await limiter.inspect('test-shop', config)).shopifyState).toBeDefined();
+    now += 100;
+
+    expect((await limiter.inspect('test-shop', config)).shopifyState).toBeUndefined();
+  });
+});
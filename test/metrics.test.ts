@@ -0,0 +1,97 @@
+import { describe, it, beforeEach, expect } from 'vitest';
+import { MemoryStore } from '../src/memory-store';
+import { MetricsCollector } from '../src/metrics';
+import { ShopifyRateLimiter } from '../src/rate-limiter';
+
+const config = { bucketCapacity: 1000, tokensPerSecond: 50 };
+
+describe('MetricsCollector', () => {
+  let limiter: ShopifyRateLimiter;
+  let collector: MetricsCollector;
+
+  beforeEach(() => {
+    limiter = new ShopifyRateLimiter(new MemoryStore());
+    collector = new MetricsCollector();
+  });
+
+  it('should count checks by result and cost', async () => {
+    collector.observe(limiter);
+
+    await limiter.checkLimit('test-shop', 100, config);
+    await limiter.checkLimit('test-shop', 900, config);
+
+    const metrics = collector.metrics();
+    expect(metrics).toContain('# TYPE shopify_rate_limiter_checks_total counter');
+    expect(metrics).toContain(
+      'shopify_rate_limiter_checks_total{shop="test-shop",priority="normal",result="allowed"} 1'
+    );
+    expect(metrics).toContain(
+      'shopify_rate_limiter_checks_total{shop="test-shop",priority="normal",result="throttled"} 1'
+    );
+    expect(metrics).toContain('shopify_rate_limiter_cost_total{shop="test-shop",priority="normal"} 100');
+    expect(metrics).toContain('shopify_rate_limiter_adjusted_cost_total{shop="test-shop",priority="normal"} 120');
+  });
+
+  it('should record throttled wait times in a cumulative histogram', async () => {
+    collector = new MetricsCollector({ waitTimeBuckets: [1, 60] });
+    collector.observe(limiter);
+
+    await limiter.checkLimit('test-shop', 600, config);
+    const throttled = await limiter.checkLimit('test-shop', 600, config);
+
+    const labels = 'shop="test-shop",priority="normal"';
+    const metrics = collector.metrics();
+    expect(metrics).toContain('# TYPE shopify_rate_limiter_wait_time_seconds histogram');
+    expect(metrics).toContain(`shopify_rate_limiter_wait_time_seconds_bucket{${labels},le="1"} 0`);
+    expect(metrics).toContain(`shopify_rate_limiter_wait_time_seconds_bucket{${labels},le="60"} 1`);
+    expect(metrics).toContain(`shopify_rate_limiter_wait_time_seconds_bucket{${labels},le="+Inf"} 1`);
+    expect(metrics).toContain(`shopify_rate_limiter_wait_time_seconds_sum{${labels}} ${throttled.waitTimeMs / 1000}`);
+    expect(metrics).toContain(`shopify_rate_limiter_wait_time_seconds_count{${labels}} 1`);
+  });
+
+  it('should count low capacity, state syncs and releases', async () => {
+    collector.observe(limiter);
+
+    const result = await limiter.checkLimit('test-shop', 700, config);
+    await limiter.releaseConcurrency('test-shop', result.reservation!.leaseId);
+    await limiter.syncShopifyState('test-shop', { maximumAvailable: 1000, currentlyAvailable: 500, restoreRate: 50 });
+
+    const metrics = collector.metrics();
+    expect(metrics).toContain('shopify_rate_limiter_low_capacity_total{shop="test-shop",priority="normal"} 1');
+    expect(metrics).toContain('shopify_rate_limiter_concurrency_releases_total{shop="test-shop"} 1');
+    expect(metrics).toContain('shopify_rate_limiter_state_syncs_total{shop="test-shop"} 1');
+  });
+
+  it('should count store errors and degraded checks', async () => {
+    const store = new MemoryStore();
+    store.checkLimit = () => Promise.reject(new Error('Connection is closed.'));
+    limiter = new ShopifyRateLimiter(store, { onStoreError: 'fail-open' });
+    collector.observe(limiter);
+
+    await limiter.checkLimit('test-shop', 10, config);
+
+    const metrics = collector.metrics();
+    expect(metrics).toContain('shopify_rate_limiter_store_errors_total 1');
+    expect(metrics).toContain('shopify_rate_limiter_degraded_checks_total{shop="test-shop",priority="normal"} 1');
+  });
+
+  it('should escape label values', async () => {
+    collector.observe(limiter);
+
+    await limiter.checkLimit('a"b\\c', 10, config);
+
+    expect(collector.metrics()).toContain('{shop="a\\"b\\\\c",priority="normal",result="allowed"} 1');
+  });
+
+  it('should stop collecting once detached and drop values on reset', async () => {
+    const detach = collector.observe(limiter);
+    await limiter.checkLimit('test-shop', 10, config);
+
+    detach();
+    await limiter.checkLimit('test-shop', 10, config);
+    expect(collector.metrics()).toContain('result="allowed"} 1');
+
+    collector.reset();
+    expect(collector.metrics()).toBe('');
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
 import Redis from 'ioredis';
 import { ShopifyRateLimiter } from '../src/rate-limiter';
+import { shopKeys } from '../src/redis-store';
+import { RateLimitTimeoutError } from '../src/errors';
 
 const DEFAULT_CONFIG = {
   bucketCapacity: 2000,
@@ -18,7 +20,13 @@ describe('ShopifyRateLimiter', () => {
       redis = {
         defineCommand: vi.fn(),
         shopifylimit: vi.fn(),
+        shopifycommit: vi.fn(),
+        shopifylimitgcra: vi.fn(),
+        shopifycommitgcra: vi.fn(),
+        shopifysyncstate: vi.fn().mockResolvedValue(1),
         set: vi.fn(),
+        shopifyrelease: vi.fn(),
+        shopifyleave: vi.fn(),
         quit: vi.fn(),
       } as unknown as Redis;
 
@@ -26,7 +34,7 @@ describe('ShopifyRateLimiter', () => {
     });
 
     it('should handle successful rate limit check', async () => {
-      vi.mocked(redis.shopifylimit).mockResolvedValueOnce([1, 0, 1800]);
+      vi.mocked(redis.shopifylimit).mockResolvedValueOnce([1, 0, 1800, '60', '1920', -1]);
 
       const result = await limiter.checkLimit('test-shop', 50, DEFAULT_CONFIG);
 
@@ -34,11 +42,13 @@ describe('ShopifyRateLimiter', () => {
         allowed: true,
         waitTimeMs: 0,
         remaining: 1800,
+        lane: { priority: 'normal', share: 1, capacity: 1920 },
+        reservation: { leaseId: expect.any(String), cost: 50, adjustedCost: 60, tokensPerSecond: 100 },
       });
     });
 
     it('should handle rate limit exceeded', async () => {
-      vi.mocked(redis.shopifylimit).mockResolvedValueOnce([0, 1000, 0]);
+      vi.mocked(redis.shopifylimit).mockResolvedValueOnce([0, 1000, 0, '60', '1920', -1]);
 
       const result = await limiter.checkLimit('test-shop', 50, DEFAULT_CONFIG);
 
@@ -46,6 +56,432 @@ describe('ShopifyRateLimiter', () => {
         allowed: false,
         waitTimeMs: 1000,
         remaining: 0,
+        lane: { priority: 'normal', share: 1, capacity: 1920 },
+      });
+    });
+
+    it('should pass the lane share of the priority to the script', async () => {
+      vi.mocked(redis.shopifylimit).mockResolvedValue([1, 0, 900, '60', '960', -1]);
+
+      const background = await limiter.checkLimit('test-shop', 50, { ...DEFAULT_CONFIG, priority: 'background' });
+      const critical = await limiter.checkLimit('test-shop', 50, {
+        ...DEFAULT_CONFIG,
+        priority: 'critical',
+        laneShares: { critical: 0.9 },
+      });
+
+      expect(vi.mocked(redis.shopifylimit).mock.calls[0].at(-12)).toBe(0.5);
+      expect(vi.mocked(redis.shopifylimit).mock.calls[1].at(-12)).toBe(0.9);
+      expect(background.lane).toEqual({ priority: 'background', share: 0.5, capacity: 960 });
+      expect(critical.lane.priority).toBe('critical');
+    });
+
+    it('should reject invalid lanes', async () => {
+      await expect(
+        limiter.checkLimit('test-shop', 50, { ...DEFAULT_CONFIG, priority: 'urgent' as any })
+      ).rejects.toThrow('Invalid priority');
+      await expect(
+        limiter.checkLimit('test-shop', 50, { ...DEFAULT_CONFIG, priority: 'toString' as any })
+      ).rejects.toThrow('Invalid priority');
+      await expect(
+        limiter.checkLimit('test-shop', 50, { ...DEFAULT_CONFIG, laneShares: { background: 1.5 } })
+      ).rejects.toThrow('Invalid lane share');
+    });
+
+    it('should honour margins and factors of 0', async () => {
+      vi.mocked(redis.shopifylimit).mockResolvedValueOnce([1, 0, 1800, '60', '2000', -1]);
+
+      await limiter.checkLimit('test-shop', 50, {
+        ...DEFAULT_CONFIG,
+        baseMargin: 0,
+        concurrencyMultiplier: 0,
+        concurrencyFactor: 0,
+        baseFactor: 0,
+      });
+
+      expect(vi.mocked(redis.shopifylimit).mock.calls[0].slice(13, 17)).toEqual([0, 0, 0, 0]);
+    });
+
+    it('should reject negative margins and factors', async () => {
+      await expect(limiter.checkLimit('test-shop', 50, { ...DEFAULT_CONFIG, baseMargin: -1 })).rejects.toThrow(
+        'Invalid baseMargin'
+      );
+      await expect(limiter.setShopConfig('test-shop', { ...DEFAULT_CONFIG, baseFactor: -0.5 })).rejects.toThrow(
+        'Invalid baseFactor'
+      );
+    });
+
+    it('should run and commit checks with the configured algorithm', async () => {
+      vi.mocked(redis.shopifylimitgcra).mockResolvedValueOnce([1, 0, 1950, '50', '2000', -1]);
+      vi.mocked(redis.shopifycommitgcra).mockResolvedValueOnce('10');
+
+      const result = await limiter.checkLimit('test-shop', 50, { ...DEFAULT_CONFIG, algorithm: 'gcra' });
+      await limiter.commit('test-shop', result.reservation!, 10);
+
+      expect(redis.shopifylimit).not.toHaveBeenCalled();
+      expect(vi.mocked(redis.shopifylimitgcra).mock.calls[0][0]).toBe('shopify:{test-shop}:tat');
+      expect(result.reservation).toMatchObject({ adjustedCost: 50, algorithm: 'gcra' });
+      expect(redis.shopifycommitgcra).toHaveBeenCalledWith(
+        'shopify:{test-shop}:tat',
+        'shopify:{test-shop}:timestamp',
+        'shopify:{test-shop}:budgets',
+        50,
+        10,
+        100,
+        '',
+        '',
+        0
+      );
+      await expect(
+        limiter.checkLimit('test-shop', 50, { ...DEFAULT_CONFIG, algorithm: 'leaky-bucket' as any })
+      ).rejects.toThrow('Invalid algorithm');
+    });
+
+    it('should apply the store error policy when the script fails', async () => {
+      vi.mocked(redis.shopifylimit).mockRejectedValue(new Error('Connection is closed.'));
+      const errors: unknown[] = [];
+      limiter = new ShopifyRateLimiter(redis, { onStoreError: 'fail-closed' }).on('storeError', ({ error }) =>
+        errors.push(error)
+      );
+
+      const result = await limiter.checkLimit('test-shop', 50, DEFAULT_CONFIG);
+
+      expect(result).toMatchObject({ allowed: false, remaining: 0, degraded: true });
+      expect(errors).toEqual([new Error('Connection is closed.')]);
+      await expect(new ShopifyRateLimiter(redis).checkLimit('test-shop', 50, DEFAULT_CONFIG)).rejects.toThrow(
+        'Connection is closed.'
+      );
+    });
+
+    it('should check a GraphQL query by its estimated cost', async () => {
+      vi.mocked(redis.shopifylimit).mockResolvedValueOnce([1, 0, 1800, '14.4', '1920', -1]);
+
+      const result = await limiter.checkQuery(
+        'test-shop',
+        'query ($first: Int) { products(first: $first) { nodes { id } } }',
+        { first: 10 },
+        DEFAULT_CONFIG
+      );
+
+      expect(vi.mocked(redis.shopifylimit).mock.calls[0][9]).toBe(12);
+      expect(result.reservation!.cost).toBe(12);
+    });
+
+    it('should commit the actual cost of a reservation', async () => {
+      vi.mocked(redis.shopifycommit).mockResolvedValueOnce('12.5');
+
+      const tokens = await limiter.commit(
+        'test-shop',
+        { leaseId: 'lease-1', cost: 50, adjustedCost: 60, tokensPerSecond: 100 },
+        10
+      );
+
+      expect(redis.shopifycommit).toHaveBeenCalledWith(
+        'shopify:{test-shop}:tokens',
+        'shopify:{test-shop}:timestamp',
+        'shopify:{test-shop}:budgets',
+        60,
+        10,
+        100,
+        '',
+        '',
+        0
+      );
+      expect(tokens).toBe(12.5);
+    });
+
+    it('should reject an invalid actual cost', async () => {
+      await expect(
+        limiter.commit('test-shop', { leaseId: 'lease-1', cost: 50, adjustedCost: 60, tokensPerSecond: 100 }, -1)
+      ).rejects.toThrow('Invalid actual cost');
+    });
+
+    it('should pass a unique lease to each check', async () => {
+      vi.mocked(redis.shopifylimit).mockResolvedValue([1, 0, 1800, '60', '1920', -1]);
+
+      const [first, second] = await Promise.all([
+        limiter.checkLimit('test-shop', 50, DEFAULT_CONFIG),
+        limiter.checkLimit('test-shop', 50, DEFAULT_CONFIG),
+      ]);
+
+      expect(first.reservation!.leaseId).not.toBe(second.reservation!.leaseId);
+      expect(vi.mocked(redis.shopifylimit).mock.calls[0].slice(-14, -12)).toEqual([first.reservation!.leaseId, 10000]);
+    });
+
+    it('should release only the given lease', async () => {
+      await limiter.releaseConcurrency('test-shop', 'lease-1');
+
+      expect(redis.shopifyrelease).toHaveBeenCalledWith(
+        'shopify:{test-shop}:concurrent',
+        'shopify:{test-shop}:queue',
+        'lease-1',
+        'shopify:{test-shop}:wake'
+      );
+    });
+
+    describe('dry runs', () => {
+      const snapshot = {
+        tokens: 500,
+        concurrency: 2,
+        bucketCapacity: 1000,
+        tokensPerSecond: 50,
+        capacityPercentage: 50,
+        safetyMargin: 100,
+        effectiveCapacity: 900,
+        backoffMs: 0,
+        queueLength: 0,
+        shopifyState: { maximumAvailable: 1000, currentlyAvailable: 500, restoreRate: 50, observedAt: 1, ageMs: 2500 },
+      };
+
+      it('should preview a check without events', async () => {
+        vi.mocked(redis.shopifylimit).mockResolvedValueOnce([0, 2000, 400, '150', '450', -1, JSON.stringify(snapshot)]);
+        const listener = vi.fn();
+        limiter.on('throttled', listener);
+
+        const preview = await limiter.wouldAllow('test-shop', 100, { ...DEFAULT_CONFIG, priority: 'background' });
+
+        expect(preview).toEqual({
+          allowed: false,
+          waitTimeMs: 2000,
+          remaining: 400,
+          adjustedCost: 150,
+          lane: { priority: 'background', share: 0.5, capacity: 450 },
+        });
+        expect(vi.mocked(redis.shopifylimit).mock.calls[0].at(-6)).toBe(1);
+        expect(listener).not.toHaveBeenCalled();
+      });
+
+      it('should inspect the bucket with the age of the Shopify state', async () => {
+        vi.mocked(redis.shopifylimit).mockResolvedValueOnce([1, 0, 400, '0', '900', -1, JSON.stringify(snapshot)]);
+
+        const inspection = await limiter.inspect('test-shop', DEFAULT_CONFIG);
+
+        expect(inspection).toEqual({
+          tokens: 500,
+          available: 500,
+          concurrency: 2,
+          bucketCapacity: 1000,
+          tokensPerSecond: 50,
+          capacityPercentage: 50,
+          safetyMargin: 100,
+          effectiveCapacity: 900,
+          backoffMs: 0,
+          queueLength: 0,
+          shopifyState: {
+            throttleStatus: { maximumAvailable: 1000, currentlyAvailable: 500, restoreRate: 50 },
+            ageMs: 2500,
+          },
+          lane: { priority: 'normal', share: 1, capacity: 900 },
+        });
+        expect(vi.mocked(redis.shopifylimit).mock.calls[0][9]).toBe(0);
+      });
+    });
+
+    describe('events', () => {
+      it('should emit allowed and throttled checks', async () => {
+        vi.mocked(redis.shopifylimit)
+          .mockResolvedValueOnce([1, 0, 1800, '60', '1920', -1])
+          .mockResolvedValueOnce([0, 1000, 100, '60', '1920', -1]);
+        const allowed = vi.fn();
+        const throttled = vi.fn();
+        limiter.on('allowed', allowed).on('throttled', throttled);
+
+        await limiter.checkLimit('test-shop', 50, DEFAULT_CONFIG);
+        await limiter.checkLimit('test-shop', 50, DEFAULT_CONFIG);
+
+        const lane = { priority: 'normal', share: 1, capacity: 1920 };
+        expect(allowed).toHaveBeenCalledWith(
+          expect.objectContaining({
+            shop: 'test-shop',
+            cost: 50,
+            adjustedCost: 60,
+            waitTimeMs: 0,
+            remaining: 1800,
+            lane,
+          })
+        );
+        expect(throttled).toHaveBeenCalledWith(
+          expect.objectContaining({
+            shop: 'test-shop',
+            cost: 50,
+            adjustedCost: 60,
+            waitTimeMs: 1000,
+            remaining: 100,
+            lane,
+          })
+        );
+      });
+
+      it('should emit lowCapacity below the threshold of the lane capacity', async () => {
+        vi.mocked(redis.shopifylimit)
+          .mockResolvedValueOnce([1, 0, 600, '60', '1920', -1])
+          .mockResolvedValueOnce([1, 0, 500, '60', '1920', -1])
+          .mockResolvedValueOnce([0, 500, 0, '50', '0', -1]);
+        const lowCapacity = vi.fn();
+        limiter.on('lowCapacity', lowCapacity);
+
+        await limiter.checkLimit('test-shop', 50, DEFAULT_CONFIG);
+        await limiter.checkLimit('test-shop', 50, DEFAULT_CONFIG);
+        await limiter.checkLimit('test-shop', 50, DEFAULT_CONFIG);
+
+        expect(lowCapacity).toHaveBeenCalledTimes(1);
+        expect(lowCapacity).toHaveBeenCalledWith(expect.objectContaining({ remaining: 500 }));
+      });
+
+      it('should emit state syncs and released leases', async () => {
+        const throttleStatus = { maximumAvailable: 1000, currentlyAvailable: 900, restoreRate: 50 };
+        const stateSynced = vi.fn();
+        const released = vi.fn();
+        limiter.on('stateSynced', stateSynced).on('concurrencyReleased', released);
+
+        await limiter.syncShopifyState('test-shop', throttleStatus, 1000);
+        await limiter.releaseConcurrency('test-shop', 'lease-1');
+
+        expect(stateSynced).toHaveBeenCalledWith({ shop: 'test-shop', throttleStatus, observedAt: 1000 });
+        expect(released).toHaveBeenCalledWith({ shop: 'test-shop', leaseId: 'lease-1' });
+      });
+
+      it('should stop calling removed listeners', async () => {
+        const released = vi.fn();
+        limiter.on('concurrencyReleased', released).off('concurrencyReleased', released);
+
+        await limiter.releaseConcurrency('test-shop', 'lease-1');
+
+        expect(released).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('schedule', () => {
+      it('should wait for admission, run the operation and release the lease', async () => {
+        vi.mocked(redis.shopifylimit)
+          .mockResolvedValueOnce([0, 20, 0, '60', '1920', -1])
+          .mockResolvedValueOnce([1, 0, 1800, '60', '1920', -1]);
+        const fn = vi.fn().mockResolvedValue('done');
+
+        const result = await limiter.schedule('test-shop', 50, DEFAULT_CONFIG, fn);
+
+        expect(result).toBe('done');
+        expect(redis.shopifylimit).toHaveBeenCalledTimes(2);
+        const reservation = fn.mock.calls[0][0];
+        expect(reservation.adjustedCost).toBe(60);
+        expect(redis.shopifyrelease).toHaveBeenCalledWith(
+          'shopify:{test-shop}:concurrent',
+          'shopify:{test-shop}:queue',
+          reservation.leaseId,
+          'shopify:{test-shop}:wake'
+        );
+      });
+
+      it('should release the lease when the operation fails', async () => {
+        vi.mocked(redis.shopifylimit).mockResolvedValueOnce([1, 0, 1800, '60', '1920', -1]);
+
+        await expect(
+          limiter.schedule('test-shop', 50, DEFAULT_CONFIG, () => {
+            throw new Error('boom');
+          })
+        ).rejects.toThrow('boom');
+        expect(redis.shopifyrelease).toHaveBeenCalledTimes(1);
+      });
+
+      it('should give up after the maximum number of retries', async () => {
+        vi.mocked(redis.shopifylimit).mockResolvedValue([0, 5, 0, '60', '1920', -1]);
+        const fn = vi.fn();
+
+        const error = await limiter.schedule('test-shop', 50, DEFAULT_CONFIG, fn, { maxRetries: 2 }).catch(e => e);
+
+        expect(error).toBeInstanceOf(RateLimitTimeoutError);
+        expect(error.attempts).toBe(3);
+        expect(error.lastResponse).toEqual(expect.objectContaining({ allowed: false, waitTimeMs: 5, remaining: 0 }));
+        expect(fn).not.toHaveBeenCalled();
+      });
+
+      it('should give up when the wait would pass the deadline', async () => {
+        vi.mocked(redis.shopifylimit).mockResolvedValue([0, 5000, 0, '60', '1920', -1]);
+
+        await expect(
+          limiter.schedule('test-shop', 50, DEFAULT_CONFIG, vi.fn(), { timeoutMs: 1000 })
+        ).rejects.toBeInstanceOf(RateLimitTimeoutError);
+        expect(redis.shopifylimit).toHaveBeenCalledTimes(1);
+      });
+
+      it('should stop waiting when aborted', async () => {
+        vi.mocked(redis.shopifylimit).mockResolvedValue([0, 5000, 0, '60', '1920', -1]);
+        const controller = new AbortController();
+
+        const promise = limiter.schedule('test-shop', 50, DEFAULT_CONFIG, vi.fn(), { signal: controller.signal });
+        setTimeout(() => controller.abort(new Error('cancelled')), 10);
+
+        await expect(promise).rejects.toThrow('cancelled');
+      });
+
+      it('should pass a ticket and leave the queue when giving up', async () => {
+        vi.mocked(redis.shopifylimit).mockResolvedValue([0, 5000, 0, '60', '1920', 0]);
+
+        const error = await limiter
+          .schedule('test-shop', 50, DEFAULT_CONFIG, vi.fn(), { queue: true, timeoutMs: 1000 })
+          .catch(e => e);
+
+        expect(error).toBeInstanceOf(RateLimitTimeoutError);
+        expect(error.lastResponse.queuePosition).toBe(0);
+        const [ticketId, ticketTimeoutMs] = vi.mocked(redis.shopifylimit).mock.calls[0].slice(-11, -9);
+        expect(ticketTimeoutMs).toBe(10000);
+        expect(redis.shopifyleave).toHaveBeenCalledWith(
+          'shopify:{test-shop}:queue',
+          'shopify:{test-shop}:queue:deadlines',
+          ticketId,
+          'shopify:{test-shop}:wake'
+        );
+      });
+    });
+
+    describe('observeResponse', () => {
+      const throttleStatus = {
+        maximumAvailable: 1000,
+        currentlyAvailable: 900,
+        restoreRate: 50,
+      };
+      const reservation = { leaseId: 'lease-1', cost: 50, adjustedCost: 60, tokensPerSecond: 100 };
+
+      it('should sync the throttle status and commit the actual cost', async () => {
+        await limiter.observeResponse(
+          'test-shop',
+          { extensions: { cost: { requestedQueryCost: 50, actualQueryCost: 12, throttleStatus } } },
+          reservation
+        );
+
+        expect(redis.shopifysyncstate).toHaveBeenCalledWith(
+          'shopify:{test-shop}:state',
+          JSON.stringify(throttleStatus),
+          expect.any(Number),
+          10000,
+          ''
+        );
+        expect(redis.shopifycommit).toHaveBeenCalledWith(
+          'shopify:{test-shop}:tokens',
+          'shopify:{test-shop}:timestamp',
+          'shopify:{test-shop}:budgets',
+          60,
+          12,
+          100,
+          '',
+          '',
+          0
+        );
+      });
+
+      it('should back off the shop and refund the reservation when throttled', async () => {
+        const observation = await limiter.observeResponse(
+          'test-shop',
+          {
+            errors: [{ message: 'Throttled', extensions: { code: 'THROTTLED' } }],
+            extensions: { cost: { requestedQueryCost: 1000, actualQueryCost: null, throttleStatus } },
+          },
+          reservation
+        );
+
+        expect(observation.backoffMs).toBe(2000);
+        expect(redis.set).toHaveBeenCalledWith('shopify:{test-shop}:backoff', '1', 'PX', 2000);
+        expect(vi.mocked(redis.shopifycommit).mock.calls[0][4]).toBe(0);
       });
     });
 
@@ -56,9 +492,16 @@ describe('ShopifyRateLimiter', () => {
         restoreRate: 100,
       };
 
-      await limiter.syncShopifyState('test-shop', throttleStatus);
+      await limiter.syncShopifyState('test-shop', throttleStatus, Date.now() - 1500);
 
-      expect(redis.set).toHaveBeenCalledWith('shopify:test-shop:state', JSON.stringify(throttleStatus), 'EX', 10);
+      const [stateKey, state, ageMs, stateTtlMs] = vi.mocked(redis.shopifysyncstate).mock.calls[0];
+      expect([stateKey, state, stateTtlMs]).toEqual([
+        'shopify:{test-shop}:state',
+        JSON.stringify(throttleStatus),
+        10000,
+      ]);
+      expect(ageMs).toBeGreaterThanOrEqual(1500);
+      expect(ageMs).toBeLessThan(2500);
     });
   });
 
@@ -114,6 +557,241 @@ describe('ShopifyRateLimiter', () => {
       });
     });
 
+    describe('reservations', () => {
+      it('should refund the difference when the actual cost is lower', async () => {
+        const first = await limiter.checkLimit('test-shop', 1000, DEFAULT_CONFIG);
+        expect(first.allowed).toBe(true);
+
+        // Without a refund the bucket is too drained for another large request
+        const blocked = await limiter.checkLimit('test-shop', 600, DEFAULT_CONFIG);
+        expect(blocked.allowed).toBe(false);
+
+        await limiter.commit('test-shop', first.reservation!, 50);
+
+        const result = await limiter.checkLimit('test-shop', 600, DEFAULT_CONFIG);
+        expect(result.allowed).toBe(true);
+      });
+
+      it('should top up the bucket when the actual cost is higher', async () => {
+        const first = await limiter.checkLimit('test-shop', 100, DEFAULT_CONFIG);
+        const tokens = await limiter.commit('test-shop', first.reservation!, 1500);
+
+        expect(tokens).toBeGreaterThan(first.reservation!.adjustedCost);
+      });
+    });
+
+    describe('budgets', () => {
+      const BUDGET_CONFIG = { ...DEFAULT_CONFIG, budget: { key: 'inventory-sync', window: 3600000, maxCost: 300 } };
+
+      it('should throttle a job type once its budget is spent, whatever the bucket holds', async () => {
+        const first = await limiter.checkLimit('test-shop', 200, BUDGET_CONFIG);
+        expect(first.budget).toMatchObject({ key: 'inventory-sync', spent: 200, remaining: 100 });
+        expect(first.reservation!.budgetKey).toBe('inventory-sync');
+
+        const overBudget = await limiter.checkLimit('test-shop', 200, BUDGET_CONFIG);
+        expect(overBudget.allowed).toBe(false);
+        expect(overBudget.waitTimeMs).toBeGreaterThan(3590000);
+        expect((await limiter.checkLimit('test-shop', 200, DEFAULT_CONFIG)).allowed).toBe(true);
+
+        // Shopify charged less than requested, so the job may go on
+        await limiter.commit('test-shop', first.reservation!, 50);
+        expect((await limiter.checkLimit('test-shop', 200, BUDGET_CONFIG)).allowed).toBe(true);
+        expect(await limiter.getBudgetUsage('test-shop')).toEqual([
+          {
+            key: 'inventory-sync',
+            window: 3600000,
+            maxCost: 300,
+            spent: 250,
+            remaining: 50,
+            resetMs: expect.any(Number),
+          },
+        ]);
+      });
+
+      it('should charge a group to the budget all or nothing', async () => {
+        const group = await limiter.checkLimitGroup('test-shop', [100, 100, 100], BUDGET_CONFIG);
+        expect(group.budget!.remaining).toBe(0);
+        expect(group.reservations!.map(reservation => reservation.budgetKey)).toEqual(Array(3).fill('inventory-sync'));
+
+        expect((await limiter.wouldAllow('test-shop', 1, BUDGET_CONFIG)).allowed).toBe(false);
+      });
+
+      it('should reject invalid budgets', async () => {
+        const budget = BUDGET_CONFIG.budget;
+        await expect(
+          limiter.checkLimit('test-shop', 1, { ...DEFAULT_CONFIG, budget: { ...budget, key: '' } })
+        ).rejects.toThrow('Invalid budget key');
+        await expect(
+          limiter.checkLimit('test-shop', 1, { ...DEFAULT_CONFIG, budget: { ...budget, window: 0 } })
+        ).rejects.toThrow('Invalid budget window');
+        await expect(
+          limiter.checkLimit('test-shop', 1, { ...DEFAULT_CONFIG, budget: { ...budget, maxCost: -1 } })
+        ).rejects.toThrow('Invalid budget max cost');
+      });
+
+      it('should reject a cost the budget could never fit', async () => {
+        await expect(limiter.checkLimit('test-shop', 301, BUDGET_CONFIG)).rejects.toThrow(
+          'Cost exceeds budget max cost'
+        );
+        await expect(limiter.checkLimitGroup('test-shop', [200, 200], BUDGET_CONFIG)).rejects.toThrow(
+          'Cost exceeds budget max cost'
+        );
+        expect(await limiter.getBudgetUsage('test-shop')).toEqual([]);
+      });
+    });
+
+    describe('response observation', () => {
+      it('should hold requests back after a THROTTLED response', async () => {
+        await limiter.observeResponse('test-shop', {
+          errors: [{ message: 'Throttled', extensions: { code: 'THROTTLED' } }],
+          extensions: {
+            cost: {
+              requestedQueryCost: 1000,
+              actualQueryCost: null,
+              throttleStatus: { maximumAvailable: 2000, currentlyAvailable: 900, restoreRate: 100 },
+            },
+          },
+        });
+
+        const result = await limiter.checkLimit('test-shop', 10, DEFAULT_CONFIG);
+        expect(result.allowed).toBe(false);
+        expect(result.waitTimeMs).toBeGreaterThan(0);
+        expect(result.waitTimeMs).toBeLessThanOrEqual(1000);
+      });
+    });
+
+    describe('inspection', () => {
+      it('should report a check without consuming capacity', async () => {
+        const result = await limiter.checkLimit('test-shop', 500, DEFAULT_CONFIG);
+
+        const before = await limiter.inspect('test-shop', DEFAULT_CONFIG);
+        const preview = await limiter.wouldAllow('test-shop', 1500, DEFAULT_CONFIG);
+        const after = await limiter.inspect('test-shop', DEFAULT_CONFIG);
+
+        expect(before.tokens).toBeGreaterThan(0);
+        expect(before.tokens).toBeLessThanOrEqual(result.reservation!.adjustedCost);
+        expect(before.concurrency).toBe(1);
+        expect(preview.allowed).toBe(false);
+        expect(after.concurrency).toBe(1);
+        expect(after.tokens).toBeLessThanOrEqual(before.tokens);
+      });
+    });
+
+    describe('shared configuration', () => {
+      it('should check with the stored configuration of the shop', async () => {
+        await limiter.setDefaultConfig(DEFAULT_CONFIG);
+        const version = await limiter.setShopConfig('test-shop', { ...DEFAULT_CONFIG, bucketCapacity: 1000 });
+
+        const result = await limiter.checkLimit('test-shop', 50);
+
+        expect(version).toBe(1);
+        expect(result.allowed).toBe(true);
+        expect(result.configVersion).toBe(1);
+        expect(result.lane.capacity).toBe(920);
+        expect(await limiter.getShopConfig('test-shop')).toEqual({
+          config: { ...DEFAULT_CONFIG, bucketCapacity: 1000 },
+          version: 1,
+        });
+      });
+
+      it('should fall back to the stored default', async () => {
+        await limiter.setDefaultConfig(DEFAULT_CONFIG);
+        await limiter.setDefaultConfig({ ...DEFAULT_CONFIG, baseMargin: 0, concurrencyMultiplier: 0 });
+
+        const result = await limiter.checkLimit('test-shop', 50);
+
+        expect(result.configVersion).toBe(2);
+        expect(result.lane.capacity).toBe(2000);
+        expect((await limiter.getDefaultConfig())?.version).toBe(2);
+        expect(await limiter.getShopConfig('test-shop')).toBeNull();
+      });
+
+      it('should prefer a passed config and report no version', async () => {
+        await limiter.setShopConfig('test-shop', { ...DEFAULT_CONFIG, bucketCapacity: 1000 });
+
+        const result = await limiter.checkLimit('test-shop', 50, DEFAULT_CONFIG);
+
+        expect(result.configVersion).toBeUndefined();
+        expect(result.lane.capacity).toBe(1920);
+      });
+
+      it('should reject checks without any configuration', async () => {
+        await expect(limiter.checkLimit('test-shop', 50)).rejects.toThrow('No rate limit config for test-shop');
+      });
+    });
+
+    describe('batch admission', () => {
+      it('should check many shops in one round trip', async () => {
+        const results = await limiter.checkLimitMany([
+          { shop: 'shop-a', cost: 1500, config: DEFAULT_CONFIG },
+          { shop: 'shop-a', cost: 600, config: DEFAULT_CONFIG },
+          { shop: 'shop-b', cost: 50, config: DEFAULT_CONFIG },
+        ]);
+
+        expect(results.map(result => result.allowed)).toEqual([true, false, true]);
+        expect(results[2].remaining).toBeGreaterThan(results[0].remaining);
+      });
+
+      it('should admit a group of operations all or nothing', async () => {
+        const group = await limiter.checkLimitGroup('test-shop', [100, 300], DEFAULT_CONFIG);
+
+        expect(group.allowed).toBe(true);
+        expect(group.reservations).toHaveLength(2);
+        expect(group.reservations![0].cost).toBe(100);
+        expect(group.reservations![1].adjustedCost).toBe(group.reservations![0].adjustedCost * 3);
+        expect((await limiter.inspect('test-shop', DEFAULT_CONFIG)).concurrency).toBe(2);
+
+        const rejected = await limiter.checkLimitGroup('test-shop', [1000, 1000], DEFAULT_CONFIG);
+        expect(rejected.allowed).toBe(false);
+        expect(rejected.reservations).toBeUndefined();
+        expect((await limiter.inspect('test-shop', DEFAULT_CONFIG)).concurrency).toBe(2);
+      });
+    });
+
+    describe('priority lanes', () => {
+      it('should throttle lower lanes earlier', async () => {
+        await limiter.checkLimit('test-shop', 800, DEFAULT_CONFIG);
+
+        const background = await limiter.checkLimit('test-shop', 100, { ...DEFAULT_CONFIG, priority: 'background' });
+        const critical = await limiter.checkLimit('test-shop', 100, { ...DEFAULT_CONFIG, priority: 'critical' });
+
+        expect(background.allowed).toBe(false);
+        expect(background.lane.capacity).toBeLessThan(critical.lane.capacity);
+        expect(critical.allowed).toBe(true);
+      });
+
+      it('should keep capacity in reserve for critical requests', async () => {
+        const config = { ...DEFAULT_CONFIG, laneShares: { normal: 0.6 } };
+        await limiter.checkLimit('test-shop', 900, config);
+
+        const normal = await limiter.checkLimit('test-shop', 100, config);
+        const critical = await limiter.checkLimit('test-shop', 100, { ...config, priority: 'critical' });
+
+        expect(normal.allowed).toBe(false);
+        expect(critical.allowed).toBe(true);
+      });
+    });
+
+    describe('fair queue', () => {
+      afterEach(async () => {
+        await limiter.close();
+      });
+
+      it('should not let small operations starve a large queued one', async () => {
+        const config = { bucketCapacity: 1000, tokensPerSecond: 1000 };
+        const filler = await limiter.checkLimit('test-shop', 700, config);
+        await limiter.releaseConcurrency('test-shop', filler.reservation!.leaseId);
+        const order: string[] = [];
+
+        const large = limiter.schedule('test-shop', 500, config, () => order.push('large'), { queue: true });
+        await vi.waitFor(async () => expect((await limiter.inspect('test-shop', config)).queueLength).toBe(1));
+        const small = limiter.schedule('test-shop', 10, config, () => order.push('small'), { queue: true });
+        await Promise.all([large, small]);
+
+        expect(order).toEqual(['large', 'small']);
+      });
+    });
+
     describe('multi-store isolation', () => {
       const stores = ['store1', 'store2', 'store3'];
 
@@ -157,6 +835,79 @@ describe('ShopifyRateLimiter', () => {
       });
     });
 
+    describe('API profiles', () => {
+      it('should keep the buckets of each API apart', async () => {
+        const rest = new ShopifyRateLimiter(redis, { profile: 'admin-rest' });
+        const storefront = new ShopifyRateLimiter(redis, { profile: 'storefront' });
+        await limiter.checkLimit('test-shop', 1500, DEFAULT_CONFIG);
+
+        const [restResult, storefrontResult] = [
+          await rest.checkLimit('test-shop', 1),
+          await storefront.checkLimit('test-shop', 1),
+        ];
+
+        expect(restResult.allowed).toBe(true);
+        expect(restResult.lane.capacity).toBe(40);
+        expect(storefrontResult.lane.capacity).toBe(200);
+        expect(await redis.exists(shopKeys('test-shop', 'rest').tokens)).toBe(1);
+        expect(await redis.exists(shopKeys('test-shop', 'storefront').tokens)).toBe(1);
+        expect((await limiter.inspect('test-shop', DEFAULT_CONFIG)).concurrency).toBe(1);
+      });
+
+      it('should apply the limits of the plan and the shop plan shared for it', async () => {
+        const graphql = new ShopifyRateLimiter(redis, { profile: 'admin-graphql', plan: 'advanced' });
+
+        expect((await graphql.inspect('test-shop')).bucketCapacity).toBe(4000);
+        expect(await graphql.setShopPlan('test-shop', 'plus')).toBe(1);
+        expect((await graphql.inspect('test-shop')).bucketCapacity).toBe(20000);
+        await expect(limiter.setShopPlan('test-shop', 'plus')).rejects.toThrow('No API profile');
+        expect(() => new ShopifyRateLimiter(redis, { profile: 'admin-graphql', plan: 'basic' as any })).toThrow(
+          'Invalid plan'
+        );
+      });
+
+      it('should sync the REST bucket from the call limit header', async () => {
+        const rest = new ShopifyRateLimiter(redis, { profile: 'admin-rest' });
+
+        const observation = await rest.observeRestResponse('test-shop', {
+          status: 200,
+          headers: { 'X-Shopify-Shop-Api-Call-Limit': '40/40' },
+        });
+
+        const result = await rest.checkLimit('test-shop', 1);
+        expect(observation).toEqual({ throttled: false, callsMade: 40, callLimit: 40, backoffMs: 0 });
+        expect(result.allowed).toBe(false);
+        // One request leaks out every 500 ms at the standard plan's 2 requests per second
+        expect(result.waitTimeMs).toBeGreaterThan(400);
+        expect(result.waitTimeMs).toBeLessThanOrEqual(500);
+        expect((await limiter.inspect('test-shop', DEFAULT_CONFIG)).shopifyState).toBeUndefined();
+      });
+
+      it('should back off and refund on a 429 REST response', async () => {
+        const rest = new ShopifyRateLimiter(redis, { profile: 'admin-rest' });
+        const { reservation } = await rest.checkLimit('test-shop', 1);
+
+        await rest.observeRestResponse(
+          'test-shop',
+          { status: 429, headers: new Headers({ 'Retry-After': '2.0' }) },
+          reservation
+        );
+
+        const result = await rest.checkLimit('test-shop', 1);
+        expect(result.allowed).toBe(false);
+        expect(result.waitTimeMs).toBeGreaterThan(1000);
+        await expect(limiter.observeRestResponse('test-shop', { status: 200, headers: {} })).resolves.toMatchObject({
+          throttled: false,
+        });
+        await expect(
+          new ShopifyRateLimiter(redis, { profile: 'storefront' }).observeRestResponse('test-shop', {
+            status: 200,
+            headers: {},
+          })
+        ).rejects.toThrow('REST responses cannot be observed with the storefront profile');
+      });
+    });
+
     describe('concurrency handling', () => {
       it('should handle parallel requests correctly', async () => {
         const PARALLEL_REQUESTS = 20;
@@ -193,7 +944,41 @@ describe('ShopifyRateLimiter', () => {
         expect(result.waitTimeMs).toBeGreaterThan(0);
       });
 
+      it('should release only the given lease', async () => {
+        const first = await limiter.checkLimit('test-shop', 10, DEFAULT_CONFIG);
+        const second = await limiter.checkLimit('test-shop', 10, DEFAULT_CONFIG);
+
+        await limiter.releaseConcurrency('test-shop', first.reservation!.leaseId);
+        await limiter.releaseConcurrency('test-shop', first.reservation!.leaseId);
+
+        const leases = await redis.zrange('shopify:{test-shop}:concurrent', 0, -1);
+        expect(leases).toEqual([second.reservation!.leaseId]);
+      });
+
+      it('should reap leases that were never released', async () => {
+        let now = Date.now();
+        limiter = new ShopifyRateLimiter(redis, { clock: () => now });
+        await limiter.checkLimit('test-shop', 10, { ...DEFAULT_CONFIG, leaseTimeoutMs: 100 });
+        now += 200;
+
+        const result = await limiter.checkLimit('test-shop', 10, DEFAULT_CONFIG);
+
+        const leases = await redis.zrange('shopify:{test-shop}:concurrent', 0, -1);
+        expect(leases).toEqual([result.reservation!.leaseId]);
+      });
+
+      it('should replace a legacy concurrency counter', async () => {
+        await redis.set('shopify:{test-shop}:concurrent', 7);
+
+        const result = await limiter.checkLimit('test-shop', 10, DEFAULT_CONFIG);
+
+        expect(result.allowed).toBe(true);
+        expect(await redis.zcard('shopify:{test-shop}:concurrent')).toBe(1);
+      });
+
       it('should recover after concurrency drops', async () => {
+        let now = Date.now();
+        limiter = new ShopifyRateLimiter(redis, { clock: () => now });
         // First create high concurrency
         await Promise.all(
           Array(10)
@@ -201,8 +986,8 @@ describe('ShopifyRateLimiter', () => {
             .map(() => limiter.checkLimit('test-shop', 100, DEFAULT_CONFIG))
         );
 
-        // Wait for concurrency to expire
-        await new Promise(resolve => setTimeout(resolve, 11000));
+        // Let the leases expire
+        now += 11000;
 
         // Should now allow new requests
         const result = await limiter.checkLimit('test-shop', 100, DEFAULT_CONFIG);
@@ -0,0 +1,89 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import { Cluster } from 'ioredis';
+import { ShopifyRateLimiter } from '../src/rate-limiter';
+import { RedisStore, shopKeys, wakeChannel } from '../src/redis-store';
+import { describeStoreConformance } from './store-conformance';
+
+const CLUSTER_NODES = (process.env.REDIS_CLUSTER_NODES || 'localhost:7000,localhost:7001,localhost:7002')
+  .split(',')
+  .map(node => {
+    const [host, port] = node.split(':');
+    return { host, port: Number(port) };
+  });
+
+async function createCluster() {
+  const cluster = new Cluster(CLUSTER_NODES);
+  // The master nodes are only known once the cluster has loaded its slots
+  await new Promise<void>((resolve, reject) => {
+    cluster.once('ready', resolve);
+    cluster.once('error', reject);
+  });
+  await Promise.all(cluster.nodes('master').map(node => node.flushdb()));
+  return cluster;
+}
+
+/**
+ * Resolves once a wake-up subscriber listens on the shop's channel, on whichever node it connected to.
+ */
+async function waitForWakeSubscriber(cluster: Cluster, shop: string) {
+  await vi.waitFor(async () => {
+    const counts = await Promise.all(
+      cluster.nodes('all').map(async node => Number((await node.pubsub('NUMSUB', wakeChannel(shop)))[1]))
+    );
+    expect(counts.reduce((sum, count) => sum + count, 0)).toBe(1);
+  });
+}
+
+let conformanceCluster: Cluster;
+
+describeStoreConformance(
+  'RedisStore on Redis Cluster',
+  async clock => {
+    conformanceCluster = await createCluster();
+    return new RedisStore(conformanceCluster, { clock });
+  },
+  async () => {
+    await conformanceCluster.quit();
+  },
+  shop => waitForWakeSubscriber(conformanceCluster, shop)
+);
+
+describe('Redis Cluster', () => {
+  let cluster: Cluster;
+
+  beforeEach(async () => {
+    cluster = await createCluster();
+  });
+
+  afterEach(async () => {
+    await cluster.quit();
+  });
+
+  it('should rate limit shops whose keys live on different nodes', async () => {
+    const limiter = new ShopifyRateLimiter(cluster);
+    const shops = Array.from({ length: 10 }, (_, i) => `shop-${i}.myshopify.com`);
+    const config = { bucketCapacity: 1000, tokensPerSecond: 50, debug: true };
+
+    const results = await Promise.all(shops.map(shop => limiter.checkLimit(shop, 10, config)));
+
+    expect(results.every(result => result.allowed)).toBe(true);
+    await Promise.all(results.map((result, i) => limiter.releaseConcurrency(shops[i], result.reservation!.leaseId)));
+    await limiter.cleanupShop(shops[0]);
+    expect(await cluster.exists(...Object.values(shopKeys(shops[0])))).toBe(0);
+  });
+
+  it('should migrate legacy keys spread across nodes', async () => {
+    const shops = ['alpha.myshopify.com', 'beta.myshopify.com', 'gamma.myshopify.com'];
+    for (const shop of shops) {
+      await cluster.set(`shopify:${shop}:tokens`, '100');
+      await cluster.set(`shopify:${shop}:timestamp`, '1700000000000');
+    }
+
+    const migrated = await new RedisStore(cluster).migrateAllLegacyKeys();
+
+    expect(migrated).toBe(6);
+    for (const shop of shops) {
+      expect(await cluster.get(shopKeys(shop).tokens)).toBe('100');
+    }
+  });
+});
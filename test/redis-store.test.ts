@@ -0,0 +1,253 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import Redis from 'ioredis';
+import { configKey, RedisStore, shopKeys, wakeChannel } from '../src/redis-store';
+import { describeStoreConformance, limitRequest } from './store-conformance';
+
+function createRedis() {
+  return new Redis({
+    host: process.env.REDIS_HOST || 'localhost',
+    port: Number(process.env.REDIS_PORT) || 6379,
+    db: 14, // Separate from the limiter tests, which run in parallel on DB 15
+  });
+}
+
+/**
+ * Resolves once a wake-up subscriber listens on the shop's channel.
+ */
+async function waitForWakeSubscriber(redis: Redis, shop: string) {
+  await vi.waitFor(async () => {
+    const [, subscribers] = await redis.pubsub('NUMSUB', wakeChannel(shop));
+    expect(subscribers).toBe(1);
+  });
+}
+
+let conformanceRedis: Redis;
+
+describeStoreConformance(
+  'RedisStore',
+  async clock => {
+    conformanceRedis = createRedis();
+    await conformanceRedis.flushdb();
+    return new RedisStore(conformanceRedis, { clock });
+  },
+  async () => {
+    await conformanceRedis.quit();
+  },
+  shop => waitForWakeSubscriber(conformanceRedis, shop)
+);
+
+describe('RedisStore', () => {
+  let redis: Redis;
+  let store: RedisStore;
+
+  beforeEach(async () => {
+    redis = createRedis();
+    store = new RedisStore(redis);
+    await redis.flushdb();
+  });
+
+  afterEach(async () => {
+    await redis.quit();
+  });
+
+  it('should hash-tag every key with the shop', () => {
+    expect(Object.values(shopKeys('my-shop.myshopify.com'))).toEqual([
+      'shopify:{my-shop.myshopify.com}:tokens',
+      'shopify:{my-shop.myshopify.com}:timestamp',
+      'shopify:{my-shop.myshopify.com}:state',
+      'shopify:{my-shop.myshopify.com}:concurrent',
+      'shopify:{my-shop.myshopify.com}:backoff',
+      'shopify:{my-shop.myshopify.com}:decisions',
+      'shopify:{my-shop.myshopify.com}:queue',
+      'shopify:{my-shop.myshopify.com}:queue:deadlines',
+      'shopify:{my-shop.myshopify.com}:tat',
+      'shopify:{my-shop.myshopify.com}:budgets',
+    ]);
+    expect(shopKeys('my-shop.myshopify.com', 'rest').tokens).toBe('shopify:{my-shop.myshopify.com}:rest:tokens');
+    expect(configKey('my-shop.myshopify.com', 'rest')).toBe('shopify:{my-shop.myshopify.com}:rest:config');
+    expect(configKey(null, 'rest')).toBe('shopify:config:default:rest');
+  });
+
+  it('should write decisions to a capped stream that expires', async () => {
+    store = new RedisStore(redis, { decisionLog: { maxEntries: 2, retentionMs: 60000 } });
+    for (let i = 0; i < 3; i++) {
+      await store.checkLimit('test-shop', {
+        cost: 10,
+        tokensPerSecond: 100,
+        bucketCapacity: 2000,
+        maxConcurrency: 5,
+        baseMargin: 70,
+        concurrencyMultiplier: 10,
+        concurrencyFactor: 1,
+        baseFactor: 1.1,
+        debug: true,
+        leaseId: `lease-${i}`,
+        leaseTimeoutMs: 10000,
+        laneShare: 1,
+      });
+    }
+
+    const key = shopKeys('test-shop').decisionLog;
+    expect(await redis.xlen(key)).toBe(2);
+    expect(await redis.pttl(key)).toBeGreaterThan(0);
+    expect((await store.getDecisionLog('test-shop')).map(entry => entry.leaseId)).toEqual(['lease-2', 'lease-1']);
+  });
+
+  it('should give back the checks admitted alongside a failed pipelined check', async () => {
+    // Fail the second check of the pipeline, as Redis reports an error of a single command
+    const createPipeline = redis.pipeline.bind(redis);
+    vi.spyOn(redis, 'pipeline').mockImplementation(() => {
+      const pipeline = createPipeline();
+      const exec = pipeline.exec.bind(pipeline);
+      pipeline.exec = async () => {
+        const results = (await exec())!;
+        results[1] = [new Error('OOM command not allowed'), null];
+        return results;
+      };
+      return pipeline;
+    });
+    const checks = [
+      { shop: 'test-shop', request: limitRequest({ cost: 500 }) },
+      { shop: 'other-shop', request: limitRequest({ cost: 500 }) },
+    ];
+
+    await expect(store.checkLimitMany(checks)).rejects.toThrow('OOM command not allowed');
+
+    const { snapshot } = await store.inspect('test-shop', limitRequest({ leaseId: '' }));
+    expect(snapshot.concurrency).toBe(0);
+    expect(snapshot.tokens).toBeLessThan(1);
+  });
+
+  it('should subscribe again after a wake-up subscription failed', async () => {
+    const duplicate = redis.duplicate.bind(redis);
+    vi.spyOn(redis, 'duplicate').mockImplementation(() => {
+      const subscriber = duplicate();
+      vi.spyOn(subscriber, 'subscribe').mockRejectedValueOnce(new Error('Connection is closed.'));
+      return subscriber;
+    });
+    store = new RedisStore(redis);
+
+    await expect(store.waitForWake('test-shop', 5000)).rejects.toThrow('Connection is closed.');
+    const startedAt = Date.now();
+    const woken = store.waitForWake('test-shop', 5000);
+    await waitForWakeSubscriber(redis, 'test-shop');
+    await redis.publish(wakeChannel('test-shop'), 'released');
+    await woken;
+
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    await store.close();
+  });
+
+  it('should keep waking a caller when another one stops waiting while subscribing', async () => {
+    let subscribed!: () => void;
+    const subscribing = new Promise<void>(resolve => (subscribed = resolve));
+    const duplicate = redis.duplicate.bind(redis);
+    vi.spyOn(redis, 'duplicate').mockImplementation(() => {
+      const subscriber = duplicate();
+      const subscribe = subscriber.subscribe.bind(subscriber) as (...channels: string[]) => Promise<unknown>;
+      vi.spyOn(subscriber, 'subscribe').mockImplementation((async (...channels: string[]) => {
+        await subscribing;
+        return subscribe(...channels);
+      }) as any);
+      return subscriber;
+    });
+    store = new RedisStore(redis);
+    const controller = new AbortController();
+
+    const woken = store.waitForWake('test-shop', 5000);
+    const cancelled = store.waitForWake('test-shop', 5000, controller.signal);
+    controller.abort(new Error('cancelled'));
+    await expect(cancelled).rejects.toThrow('cancelled');
+    subscribed();
+    await waitForWakeSubscriber(redis, 'test-shop');
+    const startedAt = Date.now();
+    await redis.publish(wakeChannel('test-shop'), 'released');
+    await woken;
+
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    await store.close();
+  });
+
+  it('should keep the lease set until the longest lease times out', async () => {
+    await store.checkLimit('test-shop', limitRequest({ leaseTimeoutMs: 60000 }));
+    await store.checkLimit('test-shop', limitRequest({ leaseTimeoutMs: 50 }));
+
+    expect(await redis.pttl(shopKeys('test-shop').concurrent)).toBeGreaterThan(50000);
+    expect((await store.inspect('test-shop', limitRequest({ leaseId: '' }))).snapshot.concurrency).toBe(2);
+  });
+
+  it('should keep the synced Shopify state for the configured TTL', async () => {
+    store = new RedisStore(redis, { shopifyStateTtlMs: 60000 });
+    const throttleStatus = { maximumAvailable: 1000, currentlyAvailable: 500, restoreRate: 50 };
+
+    await store.syncShopifyState('test-shop', throttleStatus, Date.now());
+
+    const key = shopKeys('test-shop').state;
+    expect(JSON.parse((await redis.get(key))!)).toEqual({ ...throttleStatus, observedAt: expect.any(Number) });
+    expect(await redis.pttl(key)).toBeGreaterThan(10000);
+  });
+
+  it('should restore tokens by the injected clock', async () => {
+    let now = Date.now();
+    store = new RedisStore(redis, { clock: () => now });
+    const drain = limitRequest({ cost: 1500 });
+
+    expect((await store.checkLimit('test-shop', drain)).allowed).toBe(true);
+    await store.releaseConcurrency('test-shop', drain.leaseId);
+    expect((await store.checkLimit('test-shop', limitRequest({ cost: 500 }))).allowed).toBe(false);
+
+    now += 5000;
+    expect((await store.checkLimit('test-shop', limitRequest({ cost: 500 }))).allowed).toBe(true);
+  });
+
+  it('should list the shops with rate limit state', async () => {
+    await store.checkLimit('b-shop', limitRequest({ cost: 10 }));
+    await store.backoff('a-shop', 1000);
+    await store.setConfig('config-only-shop', { bucketCapacity: 1000, tokensPerSecond: 50 });
+    await redis.set('shopify:legacy-shop:timestamp', '1700000000000');
+
+    expect(await store.listShops()).toEqual(['a-shop', 'b-shop']);
+  });
+
+  describe('legacy key migration', () => {
+    beforeEach(async () => {
+      await redis.set('shopify:test-shop:tokens', '500');
+      await redis.set('shopify:test-shop:timestamp', '1700000000000');
+      await redis.set('shopify:test-shop:state', '{}', 'EX', 60);
+      await redis.set('shopify:other-shop:timestamp', '1700000000000');
+      await redis.set('shopify:backoff-shop:backoff', '1', 'EX', 60);
+      await redis.zadd('shopify:lease-shop:concurrent', Date.now() + 60000, 'lease-1');
+    });
+
+    it('should move values and TTLs to the hash-tagged keys', async () => {
+      const migrated = await store.migrateLegacyKeys('test-shop');
+
+      const keys = shopKeys('test-shop');
+      expect(migrated).toBe(3);
+      expect(await redis.get(keys.tokens)).toBe('500');
+      expect(await redis.get(keys.timestamp)).toBe('1700000000000');
+      expect(await redis.pttl(keys.state)).toBeGreaterThan(0);
+      expect(await redis.exists('shopify:test-shop:tokens', 'shopify:test-shop:state')).toBe(0);
+    });
+
+    it('should keep keys that already exist in the new layout', async () => {
+      await redis.set(shopKeys('test-shop').tokens, '42');
+
+      const migrated = await store.migrateLegacyKeys('test-shop');
+
+      expect(migrated).toBe(2);
+      expect(await redis.get(shopKeys('test-shop').tokens)).toBe('42');
+      expect(await redis.exists('shopify:test-shop:tokens')).toBe(0);
+    });
+
+    it('should migrate every shop found by scanning', async () => {
+      const migrated = await store.migrateAllLegacyKeys();
+
+      expect(migrated).toBe(6);
+      expect(await redis.get(shopKeys('other-shop').timestamp)).toBe('1700000000000');
+      expect(await redis.pttl(shopKeys('backoff-shop').backoff)).toBeGreaterThan(0);
+      expect(await redis.zrange(shopKeys('lease-shop').concurrent, 0, -1)).toEqual(['lease-1']);
+      expect(await redis.keys('shopify:*')).toHaveLength(6);
+    });
+  });
+});
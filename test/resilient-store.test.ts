@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from 'vitest';
+import { StoreUnavailableError } from '../src/errors';
+import { MemoryStore } from '../src/memory-store';
+import { ShopifyRateLimiter } from '../src/rate-limiter';
+import { ResilientStore, ResilientStoreOptions } from '../src/resilient-store';
+import type { RateLimitStore } from '../src/store';
+import { describeStoreConformance } from './store-conformance';
+
+const CONFIG = { bucketCapacity: 2000, tokensPerSecond: 100 };
+
+describeStoreConformance(
+  'ResilientStore',
+  clock => new ResilientStore(new MemoryStore({ clock }), { onStoreError: 'local', clock })
+);
+
+/**
+ * A MemoryStore whose every call fails while `down` is set, counting the calls that reach it.
+ */
+function createFlakyStore() {
+  const flaky = { down: false, calls: 0 };
+  const memory = new MemoryStore();
+  const store = new Proxy(memory, {
+    get(target, property) {
+      const value = Reflect.get(target, property);
+      if (typeof value !== 'function') return value;
+      return (...args: unknown[]) => {
+        flaky.calls++;
+        return flaky.down ? Promise.reject(new Error('Connection is closed.')) : value.apply(target, args);
+      };
+    },
+  }) as RateLimitStore;
+  return { flaky, store };
+}
+
+function createLimiter(options: ResilientStoreOptions) {
+  const { flaky, store } = createFlakyStore();
+  const limiter = new ShopifyRateLimiter(new ResilientStore(store, options));
+  return { flaky, limiter };
+}
+
+describe('ResilientStore', () => {
+  it('should allow checks while the store fails under fail-open', async () => {
+    const { flaky, limiter } = createLimiter({ onStoreError: 'fail-open' });
+    flaky.down = true;
+
+    const result = await limiter.checkLimit('test-shop', 5000, CONFIG);
+
+    expect(result).toMatchObject({ allowed: true, degraded: true, reservation: { cost: 5000, adjustedCost: 5000 } });
+  });
+
+  it('should throttle checks while the store fails under fail-closed', async () => {
+    const { flaky, limiter } = createLimiter({ onStoreError: 'fail-closed' });
+    flaky.down = true;
+
+    const result = await limiter.checkLimit('test-shop', 10, CONFIG);
+
+    expect(result.allowed).toBe(false);
+    expect(result.degraded).toBe(true);
+    expect(result.waitTimeMs).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('should seed a local bucket from the last known state', async () => {
+    const { flaky, limiter } = createLimiter({ onStoreError: 'local' });
+    const healthy = await limiter.checkLimit('test-shop', 1000, CONFIG);
+    expect(healthy.degraded).toBeUndefined();
+    flaky.down = true;
+
+    const throttled = await limiter.checkLimit('test-shop', 1000, CONFIG);
+    const allowed = await limiter.checkLimit('other-shop', 1000, CONFIG);
+
+    expect(throttled).toMatchObject({ allowed: false, degraded: true });
+    expect(throttled.remaining).toBeLessThan(1000);
+    expect(allowed).toMatchObject({ allowed: true, degraded: true });
+  });
+
+  it('should stop calling a failing store until the reset timeout elapsed', async () => {
+    const onError = vi.fn();
+    let now = Date.now();
+    const { flaky, limiter } = createLimiter({
+      onStoreError: 'local',
+      circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 50 },
+      onError,
+      clock: () => now,
+    });
+    flaky.down = true;
+
+    for (let i = 0; i < 5; i++) await limiter.checkLimit('test-shop', 10, CONFIG);
+    expect(flaky.calls).toBe(2);
+    expect(onError).toHaveBeenCalledTimes(2);
+
+    // After the reset timeout a single trial call reaches the store; its failure opens the breaker again
+    now += 60;
+    await limiter.checkLimit('test-shop', 10, CONFIG);
+    await limiter.checkLimit('test-shop', 10, CONFIG);
+    expect(flaky.calls).toBe(3);
+
+    now += 60;
+    flaky.down = false;
+    expect((await limiter.checkLimit('test-shop', 10, CONFIG)).degraded).toBeUndefined();
+    expect((await limiter.checkLimit('test-shop', 10, CONFIG)).degraded).toBeUndefined();
+  });
+
+  it("should time the circuit breaker by the limiter's clock", async () => {
+    let now = Date.now();
+    const { flaky, store } = createFlakyStore();
+    const limiter = new ShopifyRateLimiter(store, {
+      onStoreError: 'fail-closed',
+      circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 5000 },
+      clock: () => now,
+    });
+    flaky.down = true;
+
+    await limiter.checkLimit('test-shop', 10, CONFIG);
+    expect((await limiter.checkLimit('test-shop', 10, CONFIG)).waitTimeMs).toBe(5000);
+
+    now += 5000;
+    flaky.down = false;
+    expect((await limiter.checkLimit('test-shop', 10, CONFIG)).degraded).toBeUndefined();
+  });
+
+  it('should keep using the last shared configuration read', async () => {
+    const { flaky, limiter } = createLimiter({ onStoreError: 'local' });
+    await limiter.setShopConfig('test-shop', CONFIG);
+    await limiter.checkLimit('test-shop', 10);
+    flaky.down = true;
+
+    const result = await limiter.checkLimit('test-shop', 10);
+
+    expect(result).toMatchObject({ allowed: true, degraded: true, configVersion: 1 });
+    await expect(limiter.checkLimit('other-shop', 10)).rejects.toThrow('Connection is closed.');
+  });
+
+  it('should not make up an inspection without a local bucket', async () => {
+    const { flaky, limiter } = createLimiter({
+      onStoreError: 'fail-open',
+      circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 10000 },
+    });
+    flaky.down = true;
+
+    await expect(limiter.inspect('test-shop', CONFIG)).rejects.toThrow('Connection is closed.');
+    await expect(limiter.inspect('test-shop', CONFIG)).rejects.toThrow(StoreUnavailableError);
+    await expect(limiter.wouldAllow('test-shop', 10, CONFIG)).rejects.toThrow(StoreUnavailableError);
+  });
+
+  it('should reject unknown policies', () => {
+    expect(() => new ResilientStore(new MemoryStore(), { onStoreError: 'ignore' as any })).toThrow(
+      'Invalid store error policy'
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { parseShopifyResponse, parseShopifyRestResponse } from '../src/shopify-response';
+
+const THROTTLE_STATUS = {
+  maximumAvailable: 1000,
+  currentlyAvailable: 100,
+  restoreRate: 50,
+};
+
+describe('parseShopifyResponse', () => {
+  it('should extract the query cost and throttle status', () => {
+    const observation = parseShopifyResponse({
+      extensions: {
+        cost: { requestedQueryCost: 252, actualQueryCost: 12, throttleStatus: THROTTLE_STATUS },
+      },
+    });
+
+    expect(observation).toEqual({
+      throttled: false,
+      requestedQueryCost: 252,
+      actualQueryCost: 12,
+      throttleStatus: THROTTLE_STATUS,
+      backoffMs: 0,
+    });
+  });
+
+  it('should back off until the requested cost is restored when throttled', () => {
+    const observation = parseShopifyResponse({
+      errors: [{ message: 'Throttled', extensions: { code: 'THROTTLED' } }],
+      extensions: {
+        cost: { requestedQueryCost: 600, actualQueryCost: null, throttleStatus: THROTTLE_STATUS },
+      },
+    });
+
+    expect(observation.throttled).toBe(true);
+    expect(observation.actualQueryCost).toBeUndefined();
+    expect(observation.backoffMs).toBe(10000);
+  });
+
+  it('should use a default backoff when the cost block is missing', () => {
+    const observation = parseShopifyResponse({
+      errors: [{ message: 'Throttled', extensions: { code: 'THROTTLED' } }],
+    });
+
+    expect(observation.throttled).toBe(true);
+    expect(observation.throttleStatus).toBeUndefined();
+    expect(observation.backoffMs).toBe(1000);
+  });
+
+  it('should ignore other errors and malformed throttle status', () => {
+    const observation = parseShopifyResponse({
+      errors: [{ message: 'Field does not exist', extensions: { code: 'undefinedField' } }],
+      extensions: { cost: { throttleStatus: { maximumAvailable: 1000 } as any } },
+    });
+
+    expect(observation.throttled).toBe(false);
+    expect(observation.throttleStatus).toBeUndefined();
+  });
+});
+
+describe('parseShopifyRestResponse', () => {
+  it('should read the call limit header from fetch headers and header records', () => {
+    expect(
+      parseShopifyRestResponse({ status: 200, headers: new Headers({ 'X-Shopify-Shop-Api-Call-Limit': '32/40' }) })
+    ).toEqual({ throttled: false, callsMade: 32, callLimit: 40, backoffMs: 0 });
+    expect(
+      parseShopifyRestResponse({ status: 200, headers: { 'x-shopify-shop-api-call-limit': ['1/80'] } })
+    ).toMatchObject({ callsMade: 1, callLimit: 80 });
+  });
+
+  it('should back off for the Retry-After time on a 429', () => {
+    expect(parseShopifyRestResponse({ status: 429, headers: { 'Retry-After': '2.0' } })).toEqual({
+      throttled: true,
+      backoffMs: 2000,
+    });
+    expect(parseShopifyRestResponse({ status: 429, headers: {} }).backoffMs).toBe(1000);
+  });
+
+  it('should ignore malformed headers', () => {
+    expect(parseShopifyRestResponse({ status: 200, headers: { 'X-Shopify-Shop-Api-Call-Limit': 'n/a' } })).toEqual({
+      throttled: false,
+      backoffMs: 0,
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { simulateTraffic, TrafficProfile } from '../src/simulator';
+
+const CONFIG = { bucketCapacity: 1000, tokensPerSecond: 50 };
+const PROFILE: TrafficProfile = {
+  durationMs: 60000,
+  arrivalRate: 10,
+  cost: random => 20 + random() * 80,
+  concurrency: 8,
+  restoreRate: 50,
+};
+
+describe('simulateTraffic', () => {
+  it('should replay the same run for the same seed', async () => {
+    const first = await simulateTraffic(CONFIG, { ...PROFILE, seed: 7 });
+
+    expect(await simulateTraffic(CONFIG, { ...PROFILE, seed: 7 })).toEqual(first);
+    expect(await simulateTraffic(CONFIG, { ...PROFILE, seed: 8 })).not.toEqual(first);
+  });
+
+  it('should not throttle traffic within the restore rate', async () => {
+    const report = await simulateTraffic(CONFIG, { ...PROFILE, arrivalRate: 1, cost: 10 });
+
+    expect(report).toMatchObject({ throttled: 0, shopifyThrottled: 0, meanWaitMs: 0, p99WaitMs: 0, incomplete: 0 });
+    expect(report.requests).toBeGreaterThan(40);
+    expect(report.utilisation).toBeLessThan(0.2);
+  });
+
+  it('should hold back traffic beyond the restore rate and use up the bucket', async () => {
+    const report = await simulateTraffic(CONFIG, PROFILE);
+
+    expect(report.throttled).toBeGreaterThan(0);
+    expect(report.shopifyThrottled).toBe(0);
+    expect(report.meanWaitMs).toBeGreaterThan(1000);
+    expect(report.p99WaitMs).toBeGreaterThan(report.meanWaitMs);
+    expect(report.utilisation).toBeGreaterThan(0.9);
+    expect(report.incomplete).toBeGreaterThan(0);
+  });
+
+  it('should reject invalid profiles', async () => {
+    await expect(simulateTraffic(CONFIG, { ...PROFILE, arrivalRate: 0 })).rejects.toThrow('Invalid arrival rate');
+    await expect(simulateTraffic(CONFIG, { ...PROFILE, cost: () => -1 })).rejects.toThrow('Invalid cost');
+  });
+});
@@ -0,0 +1,458 @@
+import { describe, it, beforeEach, afterEach, expect } from 'vitest';
+import type { Clock, LimitRequest, RateLimitStore } from '../src/store';
+
+let leaseCounter = 0;
+
+export function limitRequest(overrides: Partial<LimitRequest> = {}): LimitRequest {
+  return {
+    cost: 0,
+    tokensPerSecond: 100,
+    bucketCapacity: 2000,
+    maxConcurrency: 5,
+    baseMargin: 70,
+    concurrencyMultiplier: 10,
+    concurrencyFactor: 1,
+    baseFactor: 1.1,
+    debug: false,
+    leaseId: `lease-${++leaseCounter}`,
+    leaseTimeoutMs: 10000,
+    laneShare: 1,
+    ...overrides,
+  };
+}
+
+/**
+ * Behaviour every RateLimitStore must share, so backends are interchangeable. Stores are created
+ * on a fake clock that tests advance instead of sleeping. Stores that subscribe to wake-ups
+ * asynchronously pass `waitForWaiter`, which resolves once a `waitForWake` call on the shop can be woken.
+ */
+export function describeStoreConformance(
+  name: string,
+  createStore: (clock: Clock) => RateLimitStore | Promise<RateLimitStore>,
+  destroyStore: () => void | Promise<void> = () => {},
+  waitForWaiter: (shop: string) => Promise<void> = async () => {}
+) {
+  describe(`${name} conformance`, () => {
+    let store: RateLimitStore;
+    let now: number;
+
+    beforeEach(async () => {
+      now = Date.now();
+      store = await createStore(() => now);
+    });
+
+    afterEach(async () => {
+      await store.close?.();
+      await destroyStore();
+    });
+
+    it('should apply the base safety margin to an empty bucket', async () => {
+      const decision = await store.checkLimit('test-shop', limitRequest());
+
+      expect(decision).toEqual({ allowed: true, waitTimeMs: 0, remaining: 1920, adjustedCost: 0, laneCapacity: 1920 });
+    });
+
+    it('should only let a lane fill its share of the capacity', async () => {
+      await store.checkLimit('test-shop', limitRequest({ cost: 700 }));
+
+      const background = await store.checkLimit('test-shop', limitRequest({ cost: 200, laneShare: 0.5 }));
+      expect(background.allowed).toBe(false);
+      expect(background.laneCapacity).toBe(955);
+      expect(background.waitTimeMs).toBeGreaterThan(0);
+
+      const normal = await store.checkLimit('test-shop', limitRequest({ cost: 200 }));
+      expect(normal.allowed).toBe(true);
+    });
+
+    it('should adjust the cost for concurrency', async () => {
+      const decision = await store.checkLimit('test-shop', limitRequest({ cost: 100 }));
+
+      expect(decision.adjustedCost).toBe(120);
+      expect(decision.remaining).toBe(1800);
+    });
+
+    it('should not adjust the cost for concurrency with a concurrency factor of 0', async () => {
+      const decision = await store.checkLimit('test-shop', limitRequest({ cost: 100, concurrencyFactor: 0 }));
+
+      expect(decision.adjustedCost).toBe(100);
+      expect(decision.remaining).toBe(1820);
+    });
+
+    it('should block requests exceeding capacity', async () => {
+      await store.checkLimit('test-shop', limitRequest({ cost: 1500 }));
+      const decision = await store.checkLimit('test-shop', limitRequest({ cost: 600 }));
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.waitTimeMs).toBeGreaterThan(0);
+    });
+
+    it('should widen the safety margin per held lease until it is released', async () => {
+      const first = limitRequest();
+      expect((await store.checkLimit('test-shop', first)).remaining).toBe(1920);
+      expect((await store.checkLimit('test-shop', limitRequest())).remaining).toBe(1910);
+
+      await store.releaseConcurrency('test-shop', first.leaseId);
+
+      expect((await store.checkLimit('test-shop', limitRequest())).remaining).toBe(1910);
+    });
+
+    it('should reap expired leases', async () => {
+      await store.checkLimit('test-shop', limitRequest({ leaseTimeoutMs: 50 }));
+      now += 100;
+
+      expect((await store.checkLimit('test-shop', limitRequest())).remaining).toBe(1920);
+    });
+
+    it('should refund and top up committed costs', async () => {
+      const decision = await store.checkLimit('test-shop', limitRequest({ cost: 1000 }));
+
+      const refunded = await store.commit('test-shop', decision.adjustedCost, 50, 100);
+      expect(refunded).toBeGreaterThan(40);
+      expect(refunded).toBeLessThanOrEqual(50);
+
+      const toppedUp = await store.commit('test-shop', 0, 500, 100);
+      expect(toppedUp).toBeGreaterThan(refunded);
+    });
+
+    it('should fill the whole bucket at the requested cost with a plain token bucket', async () => {
+      const tokenBucket = { algorithm: 'token-bucket' as const };
+      const decision = await store.checkLimit('test-shop', limitRequest({ cost: 1500, ...tokenBucket }));
+      expect(decision).toEqual({
+        allowed: true,
+        waitTimeMs: 0,
+        remaining: 500,
+        adjustedCost: 1500,
+        laneCapacity: 2000,
+      });
+
+      const throttled = await store.checkLimit('test-shop', limitRequest({ cost: 600, ...tokenBucket }));
+      expect(throttled.allowed).toBe(false);
+      expect(throttled.waitTimeMs).toBeGreaterThan(900);
+      expect(throttled.waitTimeMs).toBeLessThanOrEqual(1000);
+    });
+
+    it('should let GCRA requests through once their emission interval elapsed', async () => {
+      const gcra = { algorithm: 'gcra' as const };
+      const decision = await store.checkLimit('test-shop', limitRequest({ cost: 2000, ...gcra }));
+      expect(decision).toEqual({ allowed: true, waitTimeMs: 0, remaining: 0, adjustedCost: 2000, laneCapacity: 2000 });
+
+      const throttled = await store.checkLimit('test-shop', limitRequest({ cost: 100, ...gcra }));
+      expect(throttled.allowed).toBe(false);
+      expect(throttled.waitTimeMs).toBeGreaterThan(900);
+      expect(throttled.waitTimeMs).toBeLessThanOrEqual(1000);
+
+      const refunded = await store.commit('test-shop', 2000, 500, 100, 'gcra');
+      expect(refunded).toBeGreaterThan(400);
+      expect(refunded).toBeLessThanOrEqual(500);
+      expect((await store.checkLimit('test-shop', limitRequest({ cost: 1400, ...gcra }))).allowed).toBe(true);
+      // The adaptive bucket is kept apart; only the leases held widen its margin
+      expect((await store.checkLimit('test-shop', limitRequest())).remaining).toBe(1900);
+    });
+
+    it('should respect the synced Shopify state', async () => {
+      const throttleStatus = { maximumAvailable: 2000, currentlyAvailable: 100, restoreRate: 100 };
+      await store.syncShopifyState('test-shop', throttleStatus, now);
+
+      const decision = await store.checkLimit('test-shop', limitRequest({ cost: 150 }));
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.waitTimeMs).toBeGreaterThan(0);
+    });
+
+    it('should project the synced Shopify state forward at its restore rate', async () => {
+      // Observed two seconds ago: 200 of the 1000 points have been restored since
+      const throttleStatus = { maximumAvailable: 1000, currentlyAvailable: 0, restoreRate: 100 };
+      await store.syncShopifyState('test-shop', throttleStatus, now - 2000);
+
+      const inspection = await store.inspect('test-shop', limitRequest({ leaseId: '' }));
+
+      expect(inspection.snapshot.tokens).toBeGreaterThan(790);
+      expect(inspection.snapshot.tokens).toBeLessThanOrEqual(800);
+      expect(inspection.snapshot.bucketCapacity).toBe(1000);
+      expect(inspection.snapshot.shopifyState!.ageMs).toBeGreaterThanOrEqual(2000);
+    });
+
+    it('should keep filling the bucket after a single Shopify state sync', async () => {
+      const throttleStatus = { maximumAvailable: 1000, currentlyAvailable: 1000, restoreRate: 50 };
+      await store.syncShopifyState('test-shop', throttleStatus, now);
+
+      const request = { cost: 200, algorithm: 'token-bucket' as const, maxConcurrency: 100 };
+      const decisions = [];
+      for (let i = 0; i < 10; i++) decisions.push(await store.checkLimit('test-shop', limitRequest(request)));
+
+      expect(decisions.filter(decision => decision.allowed)).toHaveLength(5);
+      expect(decisions[9].allowed).toBe(false);
+    });
+
+    it('should not record a Shopify state older than the state TTL', async () => {
+      const throttleStatus = { maximumAvailable: 1000, currentlyAvailable: 0, restoreRate: 50 };
+
+      expect(await store.syncShopifyState('test-shop', throttleStatus, now - 60000)).toBe(false);
+
+      const inspection = await store.inspect('test-shop', limitRequest({ leaseId: '' }));
+      expect(inspection.snapshot.shopifyState).toBeUndefined();
+    });
+
+    it('should keep a newer Shopify state over a late, older one', async () => {
+      const newer = { maximumAvailable: 1000, currentlyAvailable: 900, restoreRate: 50 };
+      const older = { maximumAvailable: 1000, currentlyAvailable: 100, restoreRate: 50 };
+
+      expect(await store.syncShopifyState('test-shop', newer, now)).toBe(true);
+      expect(await store.syncShopifyState('test-shop', older, now - 500)).toBe(false);
+
+      const inspection = await store.inspect('test-shop', limitRequest({ leaseId: '' }));
+      expect(inspection.snapshot.shopifyState!.throttleStatus).toEqual(newer);
+      expect(await store.syncShopifyState('test-shop', older, now + 500)).toBe(true);
+    });
+
+    it('should throttle every check while backing off', async () => {
+      await store.backoff('test-shop', 500);
+
+      const decision = await store.checkLimit('test-shop', limitRequest());
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.waitTimeMs).toBeGreaterThan(0);
+      expect(decision.waitTimeMs).toBeLessThanOrEqual(500);
+    });
+
+    it('should admit queued callers in arrival order', async () => {
+      const ticket = { ticketTimeoutMs: 10000 };
+      const first = await store.checkLimit('test-shop', limitRequest({ cost: 2000, ticketId: 'first', ...ticket }));
+      const second = await store.checkLimit('test-shop', limitRequest({ ticketId: 'second', ...ticket }));
+
+      expect(first).toEqual(expect.objectContaining({ allowed: false, queuePosition: 0 }));
+      expect(second).toEqual(expect.objectContaining({ allowed: false, queuePosition: 1 }));
+
+      await store.leaveQueue('test-shop', 'first');
+
+      const admitted = await store.checkLimit('test-shop', limitRequest({ ticketId: 'second', ...ticket }));
+      expect(admitted.allowed).toBe(true);
+      expect(admitted.queuePosition).toBeUndefined();
+    });
+
+    it('should drop queue tickets that are not refreshed', async () => {
+      await store.checkLimit('test-shop', limitRequest({ cost: 2000, ticketId: 'stale', ticketTimeoutMs: 50 }));
+      now += 100;
+
+      const decision = await store.checkLimit('test-shop', limitRequest({ ticketId: 'next', ticketTimeoutMs: 10000 }));
+      expect(decision.allowed).toBe(true);
+    });
+
+    it('should wake queued callers when a lease is released', async () => {
+      const holder = limitRequest();
+      await store.checkLimit('test-shop', holder);
+      await store.checkLimit('test-shop', limitRequest({ cost: 2000, ticketId: 'waiting', ticketTimeoutMs: 10000 }));
+
+      const startedAt = Date.now();
+      const woken = store.waitForWake('test-shop', 5000);
+      await waitForWaiter('test-shop');
+      await store.releaseConcurrency('test-shop', holder.leaseId);
+      await woken;
+
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+    });
+
+    it('should run many checks in order', async () => {
+      const decisions = await store.checkLimitMany([
+        { shop: 'store1', request: limitRequest({ cost: 1500 }) },
+        { shop: 'store1', request: limitRequest({ cost: 600 }) },
+        { shop: 'store2', request: limitRequest() },
+      ]);
+
+      expect(decisions.map(decision => decision.allowed)).toEqual([true, false, true]);
+      expect(decisions[2].remaining).toBe(1920);
+    });
+
+    it('should admit a group of leases all or nothing', async () => {
+      const group = limitRequest({ cost: 100, groupLeaseIds: ['group-2', 'group-3'] });
+      const admitted = await store.checkLimit('test-shop', group);
+
+      // Three leases are held for the group itself and counted in the margin
+      expect(admitted.adjustedCost).toBe(160);
+      expect((await store.checkLimit('test-shop', limitRequest())).remaining).toBeLessThanOrEqual(1960 - 160 - 40);
+
+      const rejected = await store.checkLimit('test-shop', limitRequest({ cost: 1000, groupLeaseIds: ['group-4'] }));
+      expect(rejected.allowed).toBe(false);
+
+      await store.releaseConcurrency('test-shop', group.leaseId);
+      await store.releaseConcurrency('test-shop', 'group-2');
+      await store.releaseConcurrency('test-shop', 'group-3');
+      const inspection = await store.inspect('test-shop', limitRequest({ leaseId: '' }));
+      expect(inspection.snapshot.concurrency).toBe(1);
+    });
+
+    it('should charge a budget alongside the bucket and throttle its key once spent', async () => {
+      const budget = { key: 'export', window: 60000, maxCost: 250 };
+      await store.checkLimit('test-shop', limitRequest({ cost: 100, budget }));
+
+      const second = await store.checkLimit('test-shop', limitRequest({ cost: 100, budget }));
+      expect(second.allowed).toBe(true);
+      expect(second.budget).toEqual({ ...budget, spent: 200, remaining: 50, resetMs: expect.any(Number) });
+      expect(second.budget!.resetMs).toBeGreaterThan(59000);
+      expect(second.budget!.resetMs).toBeLessThanOrEqual(60000);
+
+      const preview = await store.inspect('test-shop', limitRequest({ cost: 100, budget, leaseId: '' }));
+      expect(preview.allowed).toBe(false);
+      const overBudget = await store.checkLimit('test-shop', limitRequest({ cost: 100, budget, debug: true }));
+      expect(overBudget.allowed).toBe(false);
+      expect(overBudget.waitTimeMs).toBeGreaterThan(59000);
+      expect(overBudget.budget!.spent).toBe(200);
+      expect((await store.getDecisionLog('test-shop'))[0]).toEqual(
+        expect.objectContaining({ verdict: 'throttled', budgetKey: 'export', budgetRemaining: 50 })
+      );
+
+      expect(
+        (await store.checkLimit('test-shop', limitRequest({ cost: 100, budget: { ...budget, key: 'sync' } }))).allowed
+      ).toBe(true);
+      expect((await store.getBudgetUsage('test-shop')).map(({ key, spent }) => ({ key, spent }))).toEqual([
+        { key: 'export', spent: 200 },
+        { key: 'sync', spent: 100 },
+      ]);
+    });
+
+    it('should reconcile a budget with the actual cost and start it over after its window', async () => {
+      const budget = { key: 'export', window: 100, maxCost: 250 };
+      const decision = await store.checkLimit('test-shop', limitRequest({ cost: 200, budget }));
+
+      await store.commit('test-shop', decision.adjustedCost, 50, 100, 'adaptive', { key: 'export', reservedCost: 200 });
+      const [usage] = await store.getBudgetUsage('test-shop');
+      expect(usage).toEqual(expect.objectContaining({ key: 'export', spent: 50, remaining: 200 }));
+
+      now += 150;
+      expect(await store.getBudgetUsage('test-shop')).toEqual([]);
+      expect((await store.checkLimit('test-shop', limitRequest({ cost: 250, budget }))).budget!.spent).toBe(250);
+    });
+
+    it('should store shared configurations under increasing versions', async () => {
+      const config = { bucketCapacity: 1000, tokensPerSecond: 50, baseMargin: 0 };
+
+      expect(await store.getConfig('test-shop')).toBeNull();
+      expect(await store.setConfig('test-shop', config)).toBe(1);
+      expect(await store.setConfig('test-shop', { ...config, baseMargin: 20 })).toBe(2);
+      expect(await store.setConfig(null, config)).toBe(1);
+
+      expect(await store.getConfig('test-shop')).toEqual({ config: { ...config, baseMargin: 20 }, version: 2 });
+      expect(await store.getConfig(null)).toEqual({ config, version: 1 });
+      expect(await store.getConfig('other-shop')).toBeNull();
+
+      // The configuration is not bucket state, so it outlives a cleanup
+      await store.cleanupShop('test-shop');
+      expect((await store.getConfig('test-shop'))?.version).toBe(2);
+    });
+
+    it('should inspect the bucket without changing it', async () => {
+      await store.checkLimit('test-shop', limitRequest({ cost: 100 }));
+
+      await store.inspect('test-shop', limitRequest({ cost: 100, leaseId: '', debug: true }));
+      const first = await store.inspect('test-shop', limitRequest({ cost: 100, leaseId: '' }));
+
+      expect(first.allowed).toBe(true);
+      expect(first.adjustedCost).toBe(140);
+      expect(first.snapshot).toEqual({
+        tokens: expect.any(Number),
+        concurrency: 1,
+        bucketCapacity: 2000,
+        tokensPerSecond: 100,
+        capacityPercentage: expect.any(Number),
+        safetyMargin: 90,
+        effectiveCapacity: 1910,
+        backoffMs: 0,
+        queueLength: 0,
+      });
+      expect(first.snapshot.tokens).toBeGreaterThan(110);
+      expect(first.snapshot.tokens).toBeLessThanOrEqual(120);
+      expect(await store.getDecisionLog('test-shop')).toEqual([]);
+
+      // The inspections acquired no lease, so the next check sees one lease only
+      expect((await store.checkLimit('test-shop', limitRequest())).remaining).toBeGreaterThanOrEqual(1790);
+    });
+
+    it('should report the synced Shopify state, backoff and queue in an inspection', async () => {
+      const throttleStatus = { maximumAvailable: 1000, currentlyAvailable: 400, restoreRate: 50 };
+      await store.syncShopifyState('test-shop', throttleStatus, now);
+      await store.checkLimit('test-shop', limitRequest({ cost: 2000, ticketId: 'queued', ticketTimeoutMs: 10000 }));
+      await store.backoff('test-shop', 500);
+
+      const inspection = await store.inspect('test-shop', limitRequest({ leaseId: '' }));
+
+      expect(inspection.allowed).toBe(false);
+      expect(inspection.waitTimeMs).toBeGreaterThan(0);
+      expect(inspection.waitTimeMs).toBeLessThanOrEqual(500);
+      expect(inspection.snapshot).toEqual(
+        expect.objectContaining({ bucketCapacity: 1000, tokensPerSecond: 50, queueLength: 1 })
+      );
+      // Consumed tokens are measured against Shopify's maximum, not the configured capacity
+      expect(inspection.snapshot.tokens).toBeGreaterThan(550);
+      expect(inspection.snapshot.tokens).toBeLessThanOrEqual(600);
+      expect(inspection.snapshot.shopifyState!.throttleStatus).toEqual({
+        maximumAvailable: 1000,
+        currentlyAvailable: 400,
+        restoreRate: 50,
+      });
+      expect(inspection.snapshot.shopifyState!.ageMs).toBeGreaterThanOrEqual(0);
+      expect(inspection.snapshot.shopifyState!.ageMs).toBeLessThan(1000);
+    });
+
+    it('should record the inputs, margins and verdict of each decision', async () => {
+      await store.checkLimit('test-shop', limitRequest({ cost: 100, debug: true, leaseId: 'approved' }));
+      await store.checkLimit('test-shop', limitRequest({ cost: 2000, debug: true, leaseId: 'throttled' }));
+      await store.checkLimit('test-shop', limitRequest({ leaseId: 'unlogged' }));
+
+      const [throttled, approved] = await store.getDecisionLog('test-shop');
+
+      expect(approved).toEqual({
+        id: expect.any(String),
+        timestamp: expect.any(Number),
+        verdict: 'allowed',
+        leaseId: 'approved',
+        cost: 100,
+        waitTimeMs: 0,
+        remaining: 1800,
+        tokensPerSecond: 100,
+        bucketCapacity: 2000,
+        maxConcurrency: 5,
+        laneShare: 1,
+        shopifySynced: false,
+        tokens: 0,
+        concurrency: 1,
+        capacityPercentage: 100,
+        marginMultiplier: 1,
+        baseMargin: 70,
+        concurrencyMargin: 10,
+        safetyMargin: 80,
+        laneCapacity: 1920,
+        adjustedCost: 120,
+      });
+      expect(throttled).toEqual(
+        expect.objectContaining({ verdict: 'throttled', leaseId: 'throttled', concurrency: 2, safetyMargin: 90 })
+      );
+      expect(throttled.waitTimeMs).toBeGreaterThan(0);
+    });
+
+    it('should filter the decision log by time and limit it', async () => {
+      await store.checkLimit('test-shop', limitRequest({ debug: true }));
+      now += 20;
+      const since = now;
+      await store.checkLimit('test-shop', limitRequest({ debug: true }));
+      await store.checkLimit('test-shop', limitRequest({ debug: true }));
+      await store.backoff('test-shop', 500);
+      await store.checkLimit('test-shop', limitRequest({ debug: true, leaseId: 'backoff' }));
+
+      expect(await store.getDecisionLog('test-shop', { since })).toHaveLength(3);
+
+      const [latest] = await store.getDecisionLog('test-shop', { limit: 1 });
+      expect(latest).toEqual(expect.objectContaining({ verdict: 'backoff', leaseId: 'backoff', remaining: 0 }));
+      expect(latest.adjustedCost).toBeUndefined();
+    });
+
+    it('should keep shops isolated and clean them up', async () => {
+      await store.checkLimit('store1', limitRequest({ cost: 1500 }));
+      await store.backoff('store1', 10000);
+
+      expect((await store.checkLimit('store2', limitRequest())).remaining).toBe(1920);
+
+      await store.cleanupShop('store1');
+      expect((await store.checkLimit('store1', limitRequest())).remaining).toBe(1920);
+    });
+  });
+}
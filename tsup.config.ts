@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/bin.ts'],
   format: ['cjs', 'esm'],
   dts: true,
   splitting: false,
@@ -9,5 +9,5 @@ export default defineConfig({
   sourcemap: true,
   treeshake: true,
   minify: false,
-  external: ['ioredis'],
+  external: ['ioredis', 'graphql'],
 });